@@ -0,0 +1,282 @@
+/**
+ * Reveal sync server
+ *
+ * A tiny relay for shared sessions: devices that opened links of the same
+ * draw report who has seen their match, and every device in the room is
+ * told the full list. It also collects self-registrations for an event's
+ * join code until the organizer's device picks them up. Everything is kept
+ * in memory, and it never sees a pairing. Plain Node, no dependencies:
+ *
+ *   npm run sync-server            (PORT=8787 by default)
+ *   VITE_SYNC_URL=http://localhost:8787 npm run dev
+ *
+ *   GET  /rooms/:room/events    Server-Sent Events, { revealed: string[] }
+ *   GET  /rooms/:room           Current { revealed: string[] }
+ *   POST /rooms/:room/revealed  Body { name: string }
+ *
+ *   GET  /join/:code/events     Server-Sent Events, { requests: { name, wishlist }[] }
+ *   POST /join/:code            Body { name: string, wishlist?: string }
+ */
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+const ROOM_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const JOIN_CODE_PATTERN = /^[A-Z0-9]{4,12}$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_NAMES_PER_ROOM = 500;
+// Registrations: the same limits as the app's (src/utils/join.ts), which
+// would otherwise drop what the server accepted
+const MAX_JOIN_NAME_LENGTH = 30;
+const MAX_WISHLIST_LENGTH = 300;
+const MAX_BODY_BYTES = 4096;
+
+// Keeps proxies from closing idle event streams
+const KEEP_ALIVE_MS = 25_000;
+
+/** @type {Map<string, { names: Set<string>, clients: Set<import('node:http').ServerResponse> }>} */
+const rooms = new Map();
+
+/** @type {Map<string, { requests: Map<string, { name: string, wishlist: string }>, clients: Set<import('node:http').ServerResponse> }>} */
+const joins = new Map();
+
+/**
+ * Room by id, created on first use
+ */
+function getRoom(id) {
+  let room = rooms.get(id);
+  if (!room) {
+    room = { names: new Set(), clients: new Set() };
+    rooms.set(id, room);
+  }
+  return room;
+}
+
+/**
+ * Decodes one path segment; null when its escapes are malformed
+ */
+function decodePathSegment(segment) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sends the room's list to one event stream
+ */
+function sendRevealed(client, room) {
+  client.write(`data: ${JSON.stringify({ revealed: [...room.names] })}\n\n`);
+}
+
+/**
+ * Registrations of a join code, created on first use
+ */
+function getJoin(code) {
+  let join = joins.get(code);
+  if (!join) {
+    join = { requests: new Map(), clients: new Set() };
+    joins.set(code, join);
+  }
+  return join;
+}
+
+/**
+ * Sends a join code's registrations to one event stream
+ */
+function sendRequests(client, join) {
+  client.write(`data: ${JSON.stringify({ requests: [...join.requests.values()] })}\n\n`);
+}
+
+/**
+ * Opens an event stream that gets the current data now and on each change
+ */
+function openEventStream(request, response, clients, sendCurrent) {
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  clients.add(response);
+  sendCurrent(response);
+
+  const keepAlive = setInterval(() => response.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+  request.on('close', () => {
+    clearInterval(keepAlive);
+    clients.delete(response);
+  });
+}
+
+/**
+ * Handles /join/:code; false when the path isn't one
+ */
+async function handleJoin(request, response, pathname) {
+  const match = pathname.match(/^\/join\/([^/]+)(\/events)?$/);
+  if (!match) {
+    return false;
+  }
+
+  const code = decodePathSegment(match[1]);
+  if (code === null) {
+    sendJson(response, 400, { error: 'invalid-path' });
+    return true;
+  }
+  if (!JOIN_CODE_PATTERN.test(code)) {
+    sendJson(response, 404, { error: 'not-found' });
+    return true;
+  }
+  const join = getJoin(code);
+
+  if (request.method === 'GET' && match[2]) {
+    openEventStream(request, response, join.clients, client => sendRequests(client, join));
+    return true;
+  }
+
+  if (request.method === 'POST' && !match[2]) {
+    const body = await readJsonBody(request);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    const wishlist = typeof body?.wishlist === 'string' ? body.wishlist.trim() : '';
+    if (!name || wishlist.length > MAX_WISHLIST_LENGTH) {
+      sendJson(response, 400, { error: 'invalid-request' });
+      return true;
+    }
+    if (name.length > MAX_JOIN_NAME_LENGTH) {
+      sendJson(response, 400, { error: 'name-too-long' });
+      return true;
+    }
+    // Names are unique per event, case-insensitively; a resend updates
+    const key = name.toLowerCase();
+    if (!join.requests.has(key) && join.requests.size >= MAX_NAMES_PER_ROOM) {
+      sendJson(response, 413, { error: 'join-full' });
+      return true;
+    }
+    join.requests.set(key, { name, wishlist });
+    join.clients.forEach(client => sendRequests(client, join));
+    sendJson(response, 200, { ok: true });
+    return true;
+  }
+
+  sendJson(response, 405, { error: 'method-not-allowed' });
+  return true;
+}
+
+/**
+ * Reads a small JSON body; null when it is too big or not JSON
+ */
+function readJsonBody(request) {
+  return new Promise(resolve => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        resolve(null);
+        request.destroy();
+      }
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch {
+        resolve(null);
+      }
+    });
+    request.on('error', () => resolve(null));
+  });
+}
+
+/**
+ * Replies with JSON
+ */
+function sendJson(response, status, data) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(data));
+}
+
+/**
+ * Handles one request
+ */
+async function handleRequest(request, response) {
+  // The app is served from another origin (the Vite dev server)
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (await handleJoin(request, response, url.pathname)) {
+    return;
+  }
+
+  const match = url.pathname.match(/^\/rooms\/([^/]+)(\/events|\/revealed)?$/);
+  if (!match) {
+    sendJson(response, 404, { error: 'not-found' });
+    return;
+  }
+  const roomId = decodePathSegment(match[1]);
+  if (roomId === null) {
+    sendJson(response, 400, { error: 'invalid-path' });
+    return;
+  }
+  if (!ROOM_PATTERN.test(roomId)) {
+    sendJson(response, 404, { error: 'not-found' });
+    return;
+  }
+
+  const room = getRoom(roomId);
+  const action = match[2];
+
+  if (request.method === 'GET' && action === '/events') {
+    openEventStream(request, response, room.clients, client => sendRevealed(client, room));
+    return;
+  }
+
+  if (request.method === 'GET' && !action) {
+    sendJson(response, 200, { revealed: [...room.names] });
+    return;
+  }
+
+  if (request.method === 'POST' && action === '/revealed') {
+    const body = await readJsonBody(request);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      sendJson(response, 400, { error: 'invalid-name' });
+      return;
+    }
+    if (!room.names.has(name)) {
+      if (room.names.size >= MAX_NAMES_PER_ROOM) {
+        sendJson(response, 413, { error: 'room-full' });
+        return;
+      }
+      room.names.add(name);
+      room.clients.forEach(client => sendRevealed(client, room));
+    }
+    sendJson(response, 200, { revealed: [...room.names] });
+    return;
+  }
+
+  sendJson(response, 405, { error: 'method-not-allowed' });
+}
+
+// One failed request must not take the server down for everyone
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    console.error('Request failed:', error);
+    if (response.headersSent) {
+      response.end();
+    } else {
+      sendJson(response, 500, { error: 'internal-error' });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}`);
+});
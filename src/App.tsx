@@ -1,4 +1,4 @@
-import { useEffect } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { useSecretSantaStore } from './store/useSecretSantaStore';
 import { Snowfall } from './components/Snowfall/Snowfall';
@@ -8,36 +8,200 @@ import { SetupScreen } from './screens/SetupScreen/SetupScreen';
 import { SelectScreen } from './screens/SelectScreen/SelectScreen';
 import { SpinScreen } from './screens/SpinScreen/SpinScreen';
 import { RevealScreen } from './screens/RevealScreen/RevealScreen';
+import { JoinScreen } from './screens/JoinScreen/JoinScreen';
+import { ShareUnlock } from './components/ShareUnlock/ShareUnlock';
+import { OrganizerGate } from './components/OrganizerGate/OrganizerGate';
+import { TamperWarning } from './components/TamperWarning/TamperWarning';
+import { EventSwitcher } from './components/EventSwitcher/EventSwitcher';
+import { TabSyncNotice } from './components/TabSyncNotice/TabSyncNotice';
 import { preloadSounds } from './utils/sound';
+import {
+  type ShareDecryptError,
+  type ShareDecryptResult,
+  decryptSharePayload,
+  isEncryptedSharePayload,
+  needsSharePassphrase,
+  readShareKeyFromHash,
+} from './utils/shareCrypto';
 import './App.css';
 
+/**
+ * Reads the share payload from the URL, if the page was opened from a link
+ */
+function readSharedLink(): { personal: boolean; payload: string } | null {
+  const urlParams = new URLSearchParams(window.location.search);
+  const kuraData = urlParams.get('kura');
+  // A personal link opens straight on that person's spin
+  const personalData = urlParams.get('kisi');
+
+  if (personalData) return { personal: true, payload: personalData };
+  if (kuraData) return { personal: false, payload: kuraData };
+  return null;
+}
+
+/**
+ * Reads the join code from the URL, if the page was opened from a join link
+ */
+function readJoinLink(): string | null {
+  return new URLSearchParams(window.location.search).get('katil');
+}
+
+/**
+ * Clean the URL (and the fragment key) without reloading
+ */
+function clearSharedLinkFromUrl() {
+  window.history.replaceState({}, '', window.location.pathname);
+}
+
 function App() {
-  const { currentScreen, loadFromShareData, isDrawComplete } = useSecretSantaStore();
+  const {
+    currentScreen,
+    loadFromShareData,
+    loadFromPersonalShareData,
+    isDrawComplete,
+    isSharedSession,
+    sharedSessionRoom,
+    connectRevealSync,
+    integrityStatus,
+    isLoading,
+    hydrate,
+    connectTabSync,
+  } = useSecretSantaStore();
+
+  const [sharedLink, setSharedLink] = useState(readSharedLink);
+  const [shareError, setShareError] = useState<ShareDecryptError | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [joinLinkCode, setJoinLinkCode] = useState(readJoinLink);
+
+  // The organizer's own finished draw is never replaced by a link (so the
+  // event is read first); a shared session is, when another link is opened
+  const canOpenLink = !isLoading && (!isDrawComplete || isSharedSession);
+
+  const isLocked = sharedLink !== null && canOpenLink &&
+    isEncryptedSharePayload(sharedLink.payload);
+  const needsPassphrase = isLocked && needsSharePassphrase(sharedLink.payload);
+
+  // Load a decoded payload into the store
+  const loadSharedPayload = useCallback((personal: boolean, payload: string) => {
+    return personal ? loadFromPersonalShareData(payload) : loadFromShareData(payload);
+  }, [loadFromShareData, loadFromPersonalShareData]);
+
+  // Load a decrypted link, or keep the reason it could not be opened
+  const handleDecryptResult = useCallback(async (result: ShareDecryptResult) => {
+    if (!sharedLink) return;
+
+    if (!result.ok) {
+      setShareError(result.error);
+      return;
+    }
+    if (!(await loadSharedPayload(sharedLink.personal, result.payload))) {
+      setShareError('malformed');
+      return;
+    }
+    setShareError(null);
+    setSharedLink(null);
+    clearSharedLinkFromUrl();
+  }, [sharedLink, loadSharedPayload]);
 
   // Check for shared link on mount
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    const kuraData = urlParams.get('kura');
-    
-    if (kuraData && !isDrawComplete) {
-      const success = loadFromShareData(kuraData);
-      if (success) {
-        // Clean the URL without reloading
-        window.history.replaceState({}, '', window.location.pathname);
-      }
+    if (!sharedLink || !canOpenLink) return;
+
+    if (!isEncryptedSharePayload(sharedLink.payload)) {
+      loadSharedPayload(sharedLink.personal, sharedLink.payload).then(success => {
+        if (!success) return;
+        setSharedLink(null);
+        clearSharedLinkFromUrl();
+      });
+    } else if (!needsSharePassphrase(sharedLink.payload)) {
+      // The key sits in the fragment, which never reaches a server
+      decryptSharePayload(sharedLink.payload, readShareKeyFromHash(window.location.hash))
+        .then(handleDecryptResult);
     }
-  }, [loadFromShareData, isDrawComplete]);
+  }, [sharedLink, canOpenLink, loadSharedPayload, handleDecryptResult]);
+
+  const handlePassphrase = async (passphrase: string) => {
+    if (!sharedLink) return;
+    setIsUnlocking(true);
+    await handleDecryptResult(await decryptSharePayload(sharedLink.payload, passphrase));
+    setIsUnlocking(false);
+  };
+
+  const handleJoinDone = () => {
+    clearSharedLinkFromUrl();
+    setJoinLinkCode(null);
+  };
+
+  const handleCancelUnlock = () => {
+    clearSharedLinkFromUrl();
+    setSharedLink(null);
+    setShareError(null);
+  };
 
   // Preload sounds on mount
   useEffect(() => {
     preloadSounds();
   }, []);
 
+  // Keep reveal progress in step with other devices of a shared session
+  useEffect(() => {
+    if (!sharedSessionRoom) return;
+    return connectRevealSync();
+  }, [sharedSessionRoom, connectRevealSync]);
+
+  // Read the stored event (and check it against its signature) before
+  // showing it
+  useEffect(() => {
+    void hydrate();
+  }, [hydrate]);
+
+  // Keep up with what the app's other tabs save
+  useEffect(() => connectTabSync(), [connectTabSync]);
+
+  // Events are switched between draws, never in the middle of a spin or
+  // inside someone else's shared draw
+  const showEventSwitcher = !isSharedSession && joinLinkCode === null && !isLocked &&
+    (currentScreen === 'setup' || currentScreen === 'select');
+
   // Render current screen
   const renderScreen = () => {
+    // Joining needs nothing from this device's own event
+    if (joinLinkCode !== null) {
+      return <JoinScreen key="join" code={joinLinkCode} onDone={handleJoinDone} />;
+    }
+
+    if (isLoading) {
+      return <p key="loading" className="app-loading">🎁 Yükleniyor...</p>;
+    }
+
+    if (isLocked) {
+      return (
+        <ShareUnlock
+          key="share-unlock"
+          needsPassphrase={needsPassphrase}
+          error={shareError}
+          isUnlocking={isUnlocking}
+          onSubmit={handlePassphrase}
+          onCancel={handleCancelUnlock}
+        />
+      );
+    }
+
+    // Nothing from storage is shown until it checks out
+    if (integrityStatus === 'tampered') {
+      return <TamperWarning key="tamper-warning" />;
+    }
+    if (integrityStatus === 'checking') {
+      return null;
+    }
+
     switch (currentScreen) {
       case 'setup':
-        return <SetupScreen />;
+        return (
+          <OrganizerGate>
+            <SetupScreen />
+          </OrganizerGate>
+        );
       case 'select':
         return <SelectScreen />;
       case 'spin':
@@ -45,7 +209,11 @@ function App() {
       case 'reveal':
         return <RevealScreen />;
       default:
-        return <SetupScreen />;
+        return (
+          <OrganizerGate>
+            <SetupScreen />
+          </OrganizerGate>
+        );
     }
   };
 
@@ -61,6 +229,8 @@ function App() {
       
       {/* Main Content */}
       <main className="main-content">
+        {showEventSwitcher && <EventSwitcher />}
+        <TabSyncNotice />
         <AnimatePresence mode="wait">
           {renderScreen()}
         </AnimatePresence>
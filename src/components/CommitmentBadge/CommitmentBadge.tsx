@@ -0,0 +1,24 @@
+/**
+ * Commitment Badge Component
+ * Shows the fingerprint of the published draw commitment
+ */
+
+import React from 'react';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { formatFingerprint } from '../../utils/commitment';
+import './CommitmentBadge.css';
+
+export const CommitmentBadge: React.FC = () => {
+  const { commitment } = useSecretSantaStore();
+
+  if (!commitment) return null;
+
+  return (
+    <div
+      className="commitment-badge"
+      title="Kura çekildiğinde yayımlanan özet. Kura değişirse bu kod da değişir."
+    >
+      🔏 Kura parmak izi: <code>{formatFingerprint(commitment.root)}</code>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { CommitmentBadge } from './CommitmentBadge';
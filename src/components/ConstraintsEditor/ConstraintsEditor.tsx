@@ -0,0 +1,192 @@
+/**
+ * Constraints Editor Component
+ * Edits "cannot give to" rules and households before the draw
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound, triggerHaptic } from '../../utils/sound';
+import './ConstraintsEditor.css';
+
+export const ConstraintsEditor: React.FC = () => {
+  const [giverId, setGiverId] = useState('');
+  const [receiverId, setReceiverId] = useState('');
+  const [mutual, setMutual] = useState(true);
+  const [householdName, setHouseholdName] = useState('');
+
+  const {
+    participants,
+    constraints,
+    addExclusion,
+    removeExclusion,
+    addHousehold,
+    removeHousehold,
+    toggleHouseholdMember,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const nameOf = (id: string) =>
+    participants.find(p => p.id === id)?.name ?? '?';
+
+  const handleAddExclusion = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!giverId || !receiverId || giverId === receiverId) return;
+
+    addExclusion(giverId, receiverId, mutual);
+    playSound('click', soundEnabled);
+    triggerHaptic('light');
+    setGiverId('');
+    setReceiverId('');
+  };
+
+  const handleAddHousehold = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!householdName.trim()) return;
+
+    addHousehold(householdName);
+    playSound('click', soundEnabled);
+    triggerHaptic('light');
+    setHouseholdName('');
+  };
+
+  return (
+    <div className="constraints-editor">
+      <h2 className="section-title">🚫 Kısıtlamalar</h2>
+      <p className="constraints-hint">
+        Birbirini çekmemesi gereken kişileri belirleyin (eşler, aile üyeleri...)
+      </p>
+
+      {/* Pairwise rules */}
+      <form onSubmit={handleAddExclusion} className="exclusion-form">
+        <select
+          className="constraint-select"
+          value={giverId}
+          onChange={(e) => setGiverId(e.target.value)}
+        >
+          <option value="">Kim...</option>
+          {participants.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <span className="exclusion-arrow">{mutual ? '⇄' : '→'}</span>
+        <select
+          className="constraint-select"
+          value={receiverId}
+          onChange={(e) => setReceiverId(e.target.value)}
+        >
+          <option value="">Kimi çekmesin...</option>
+          {participants
+            .filter(p => p.id !== giverId)
+            .map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+        </select>
+        <label className="mutual-toggle">
+          <input
+            type="checkbox"
+            checked={mutual}
+            onChange={(e) => setMutual(e.target.checked)}
+          />
+          Karşılıklı
+        </label>
+        <motion.button
+          type="submit"
+          className="constraint-add-button"
+          disabled={!giverId || !receiverId}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ➕ Kural Ekle
+        </motion.button>
+      </form>
+
+      <div className="constraint-list">
+        <AnimatePresence mode="popLayout">
+          {constraints.exclusions.map(rule => (
+            <motion.div
+              key={rule.id}
+              className="constraint-chip"
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+              layout
+            >
+              <span>
+                {nameOf(rule.giverId)} {rule.mutual ? '⇄' : '→'} {nameOf(rule.receiverId)}
+              </span>
+              <button
+                className="chip-remove"
+                onClick={() => removeExclusion(rule.id)}
+                title="Kuralı kaldır"
+              >
+                ✕
+              </button>
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+
+      {/* Households */}
+      <h3 className="households-title">🏠 Haneler</h3>
+      <form onSubmit={handleAddHousehold} className="household-form">
+        <input
+          type="text"
+          value={householdName}
+          onChange={(e) => setHouseholdName(e.target.value)}
+          placeholder="Hane adı (ör. Yılmaz Ailesi)..."
+          className="household-input"
+          maxLength={30}
+        />
+        <motion.button
+          type="submit"
+          className="constraint-add-button"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ➕ Hane Ekle
+        </motion.button>
+      </form>
+
+      <AnimatePresence mode="popLayout">
+        {constraints.households.map(household => (
+          <motion.div
+            key={household.id}
+            className="household-card"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            layout
+          >
+            <div className="household-header">
+              <span className="household-name">
+                {household.name} ({household.memberIds.length})
+              </span>
+              <button
+                className="chip-remove"
+                onClick={() => removeHousehold(household.id)}
+                title="Haneyi kaldır"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="household-members">
+              {participants.map(p => {
+                const isMember = household.memberIds.includes(p.id);
+                return (
+                  <button
+                    key={p.id}
+                    className={`member-toggle ${isMember ? 'active' : ''}`}
+                    onClick={() => toggleHouseholdMember(household.id, p.id)}
+                  >
+                    {isMember ? '✓ ' : ''}{p.name}
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
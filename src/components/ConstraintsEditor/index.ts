@@ -0,0 +1 @@
+export { ConstraintsEditor } from './ConstraintsEditor';
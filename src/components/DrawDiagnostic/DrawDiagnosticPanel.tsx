@@ -0,0 +1,157 @@
+/**
+ * Draw Diagnostic Panel Component
+ * Explains why the draw is impossible and offers rules to relax
+ */
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { DrawDiagnostic, RelaxSuggestion } from '../../types';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound } from '../../utils/sound';
+import { GROUP_RULE_ID, HISTORY_RULE_ID } from '../../utils/diagnostics';
+import './DrawDiagnosticPanel.css';
+
+interface DrawDiagnosticPanelProps {
+  diagnostic: DrawDiagnostic;
+}
+
+// Only the top few suggestions are useful; the rest is noise
+const MAX_SUGGESTIONS = 3;
+
+export const DrawDiagnosticPanel: React.FC<DrawDiagnosticPanelProps> = ({
+  diagnostic,
+}) => {
+  const {
+    participants,
+    constraints,
+    removeExclusion,
+    removeHousehold,
+    settings,
+    setDrawMode,
+    setHistoryAvoidance,
+    setGroupPolicy,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const namesOf = (ids: string[]) =>
+    ids
+      .map(id => participants.find(p => p.id === id)?.name ?? '?')
+      .join(', ');
+
+  const group = namesOf(diagnostic.participantIds);
+  const candidates = namesOf(diagnostic.candidateIds);
+  const isSingle = diagnostic.participantIds.length === 1;
+  const gifts = settings.giftsPerPerson;
+
+  const explanation = (() => {
+    if (diagnostic.side === 'chain') {
+      return 'Kurallar herkesin tek bir zincirde sıralanmasına izin vermiyor.';
+    }
+
+    if (diagnostic.side === 'gifts') {
+      return `Kurallar herkesin ${gifts} hediye vermesine izin vermiyor. ` +
+        'Kişi başı hediye sayısını azaltmayı deneyin.';
+    }
+
+    if (diagnostic.side === 'givers') {
+      if (isSingle && diagnostic.candidateIds.length === 0) {
+        return `${group} için uygun kimse yok: çekebileceği herkes bir kuralla engellenmiş.`;
+      }
+      if (isSingle && gifts > 1) {
+        return `${group} ${gifts} kişiye hediye almalı ama yalnızca ` +
+          `${diagnostic.candidateIds.length} kişiyi çekebiliyor` +
+          (candidates ? `: ${candidates}.` : '.');
+      }
+      return `${group} (${diagnostic.participantIds.length} kişi) birlikte yalnızca ` +
+        `${diagnostic.candidateIds.length} kişiyi çekebiliyor` +
+        (candidates ? `: ${candidates}.` : '.');
+    }
+
+    if (isSingle && diagnostic.candidateIds.length === 0) {
+      return `${group} kimse tarafından çekilemiyor: herkes bir kuralla engellenmiş.`;
+    }
+    if (isSingle && gifts > 1) {
+      return `${group} ${gifts} hediye almalı ama yalnızca ` +
+        `${diagnostic.candidateIds.length} kişi tarafından çekilebiliyor` +
+        (candidates ? `: ${candidates}.` : '.');
+    }
+    return `${group} (${diagnostic.participantIds.length} kişi) yalnızca ` +
+      `${diagnostic.candidateIds.length} kişi tarafından çekilebiliyor` +
+      (candidates ? `: ${candidates}.` : '.');
+  })();
+
+  const describeRule = (suggestion: RelaxSuggestion) => {
+    if (suggestion.kind === 'history') {
+      return `📜 Son ${settings.avoidRecentRounds} turu kesinlikle tekrarlama`;
+    }
+    if (suggestion.kind === 'group') {
+      return '👥 Farklı ekibe hediye zorunlu';
+    }
+    if (suggestion.kind === 'household') {
+      const household = constraints.households.find(h => h.id === suggestion.ruleId);
+      return `🏠 ${household?.name ?? '?'} hanesi`;
+    }
+    const rule = constraints.exclusions.find(r => r.id === suggestion.ruleId);
+    if (!rule) return '?';
+    return `🚫 ${namesOf([rule.giverId])} ${rule.mutual ? '⇄' : '→'} ${namesOf([rule.receiverId])}`;
+  };
+
+  const handleRelax = (suggestion: RelaxSuggestion) => {
+    if (suggestion.ruleId === HISTORY_RULE_ID) {
+      // Repeats become a preference instead of a rule
+      setHistoryAvoidance(settings.avoidRecentRounds, 'soft');
+    } else if (suggestion.ruleId === GROUP_RULE_ID) {
+      setGroupPolicy('prefer');
+    } else if (suggestion.kind === 'household') {
+      removeHousehold(suggestion.ruleId);
+    } else {
+      removeExclusion(suggestion.ruleId);
+    }
+    playSound('click', soundEnabled);
+  };
+
+  return (
+    <motion.div
+      className="draw-diagnostic"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <h3 className="diagnostic-title">⚠️ Bu kısıtlamalarla kura çekilemiyor</h3>
+      <p className="diagnostic-explanation">{explanation}</p>
+
+      {diagnostic.side === 'chain' && (
+        <button
+          className="relax-button"
+          onClick={() => {
+            setDrawMode('standard');
+            playSound('click', soundEnabled);
+          }}
+        >
+          🔀 Serbest moda geç
+        </button>
+      )}
+
+      {diagnostic.suggestions.length > 0 && (
+        <>
+          <p className="diagnostic-hint">Şu kurallardan birini gevşetmeyi deneyin:</p>
+          <ul className="diagnostic-suggestions">
+            {diagnostic.suggestions.slice(0, MAX_SUGGESTIONS).map(suggestion => (
+              <li key={suggestion.ruleId} className="diagnostic-suggestion">
+                <span>
+                  {describeRule(suggestion)}
+                  <span className="blocked-count"> ({suggestion.blockedPairs} engel)</span>
+                </span>
+                <button
+                  className="relax-button"
+                  onClick={() => handleRelax(suggestion)}
+                >
+                  {suggestion.kind === 'history' || suggestion.kind === 'group' ? 'Gevşet' : 'Kaldır'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { DrawDiagnosticPanel } from './DrawDiagnosticPanel';
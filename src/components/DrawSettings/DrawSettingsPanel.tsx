@@ -0,0 +1,213 @@
+/**
+ * Draw Settings Panel Component
+ * Organizer options that shape how the draw is made
+ */
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import type { DrawMode, HistoryPolicy, GroupPolicy } from '../../types';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound } from '../../utils/sound';
+import {
+  MAX_AVOID_ROUNDS,
+  MAX_GIFTS_PER_PERSON,
+  MAX_SEED_LENGTH,
+} from '../../utils/settings';
+import { generateSeed } from '../../utils/random';
+import { listGroups } from '../../utils/groups';
+import './DrawSettingsPanel.css';
+
+const MODE_OPTIONS: { mode: DrawMode; label: string; hint: string }[] = [
+  {
+    mode: 'standard',
+    label: '🔀 Serbest',
+    hint: 'Herkes rastgele birini çeker; küçük döngüler (A ⇄ B) oluşabilir.',
+  },
+  {
+    mode: 'chain',
+    label: '🔗 Tek Zincir',
+    hint: 'Herkes tek bir halkada sıralanır; hediyeler partide sırayla verilir.',
+  },
+];
+
+const GROUP_OPTIONS: { policy: GroupPolicy; label: string }[] = [
+  { policy: 'off', label: 'Kapalı' },
+  { policy: 'prefer', label: 'Mümkünse' },
+  { policy: 'require', label: 'Zorunlu' },
+];
+
+export const DrawSettingsPanel: React.FC = () => {
+  const {
+    participants,
+    settings,
+    history,
+    setDrawMode,
+    setHistoryAvoidance,
+    setDrawSeed,
+    setGiftsPerPerson,
+    setGroupPolicy,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const handleModeChange = (mode: DrawMode) => {
+    setDrawMode(mode);
+    playSound('click', soundEnabled);
+  };
+
+  const handlePolicyChange = (policy: HistoryPolicy) => {
+    setHistoryAvoidance(settings.avoidRecentRounds, policy);
+    playSound('click', soundEnabled);
+  };
+
+  const handleGiftsChange = (count: number) => {
+    setGiftsPerPerson(count);
+    playSound('click', soundEnabled);
+  };
+
+  const handleGroupPolicyChange = (policy: GroupPolicy) => {
+    setGroupPolicy(policy);
+    playSound('click', soundEnabled);
+  };
+
+  const groupCount = listGroups(participants).length;
+
+  const activeOption = MODE_OPTIONS.find(o => o.mode === settings.mode);
+  // A single chain needs exactly one gift per person
+  const isChainDisabled = settings.giftsPerPerson > 1;
+
+  return (
+    <div className="draw-settings">
+      <h2 className="section-title">🎛️ Kura Ayarları</h2>
+
+      <div className="mode-toggle">
+        {MODE_OPTIONS.map(option => (
+          <motion.button
+            key={option.mode}
+            className={`mode-option ${settings.mode === option.mode ? 'active' : ''}`}
+            onClick={() => handleModeChange(option.mode)}
+            disabled={option.mode === 'chain' && isChainDisabled}
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+          >
+            {option.label}
+          </motion.button>
+        ))}
+      </div>
+      {activeOption && (
+        <p className="settings-hint">{activeOption.hint}</p>
+      )}
+
+      {/* Gifts per person */}
+      <div className="history-settings">
+        <div className="gifts-row">
+          <span>🎁 Kişi başı hediye</span>
+          <div className="mode-toggle">
+            {Array.from({ length: MAX_GIFTS_PER_PERSON }, (_, i) => i + 1).map(count => (
+              <button
+                key={count}
+                className={`mode-option small ${settings.giftsPerPerson === count ? 'active' : ''}`}
+                onClick={() => handleGiftsChange(count)}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+        {settings.giftsPerPerson > 1 && (
+          <p className="settings-hint">
+            Herkes {settings.giftsPerPerson} kişiye hediye alır ve {settings.giftsPerPerson} hediye alır.
+            Tek zincir modu yalnızca 1 hediyeyle kullanılabilir.
+          </p>
+        )}
+      </div>
+
+      {/* Cross-group draw */}
+      <div className="history-settings">
+        <div className="gifts-row">
+          <span>👥 Farklı ekibe hediye</span>
+          <div className="mode-toggle">
+            {GROUP_OPTIONS.map(option => (
+              <button
+                key={option.policy}
+                className={`mode-option small ${settings.groupPolicy === option.policy ? 'active' : ''}`}
+                onClick={() => handleGroupPolicyChange(option.policy)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        {settings.groupPolicy !== 'off' && (
+          <p className="settings-hint">
+            {groupCount < 2
+              ? 'Katılımcılara en az iki farklı ekip yazın.'
+              : `${groupCount} ekip var; herkes başka bir ekipten birine hediye alır` +
+                (settings.groupPolicy === 'prefer' ? ' (mümkün olduğunca).' : '.')}
+          </p>
+        )}
+      </div>
+
+      {/* Repeat avoidance */}
+      <div className="history-settings">
+        <label className="history-rounds">
+          Son
+          <input
+            type="number"
+            min={0}
+            max={MAX_AVOID_ROUNDS}
+            value={settings.avoidRecentRounds}
+            onChange={(e) =>
+              setHistoryAvoidance(Number(e.target.value), settings.historyPolicy)
+            }
+            className="rounds-input"
+          />
+          turdaki eşleşmeleri tekrarlama
+        </label>
+        {settings.avoidRecentRounds > 0 && (
+          <div className="mode-toggle">
+            <button
+              className={`mode-option small ${settings.historyPolicy === 'soft' ? 'active' : ''}`}
+              onClick={() => handlePolicyChange('soft')}
+            >
+              Mümkünse
+            </button>
+            <button
+              className={`mode-option small ${settings.historyPolicy === 'hard' ? 'active' : ''}`}
+              onClick={() => handlePolicyChange('hard')}
+            >
+              Kesinlikle
+            </button>
+          </div>
+        )}
+        <p className="settings-hint">
+          📜 Kayıtlı geçmiş: {history.length} tur
+        </p>
+      </div>
+
+      {/* Reproducible draw */}
+      <div className="history-settings">
+        <div className="seed-row">
+          <input
+            type="text"
+            value={settings.seed}
+            onChange={(e) => setDrawSeed(e.target.value)}
+            placeholder="Tohum (boş = güvenli rastgele)"
+            className="seed-input"
+            maxLength={MAX_SEED_LENGTH}
+          />
+          <button
+            className="mode-option small"
+            onClick={() => setDrawSeed(generateSeed())}
+          >
+            🎲 Oluştur
+          </button>
+        </div>
+        <p className="settings-hint">
+          {settings.seed
+            ? 'Aynı tohumla kura birebir tekrar üretilip doğrulanabilir. Tohumu gizli tutun!'
+            : 'Kura tarayıcının güvenli rastgele sayı üreteciyle çekilir.'}
+        </p>
+      </div>
+    </div>
+  );
+};
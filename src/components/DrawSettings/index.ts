@@ -0,0 +1 @@
+export { DrawSettingsPanel } from './DrawSettingsPanel';
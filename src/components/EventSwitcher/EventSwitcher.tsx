@@ -0,0 +1,90 @@
+/**
+ * Event Switcher Component
+ * Picks which of the device's events is open, or starts a new one
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound } from '../../utils/sound';
+import { MAX_EVENT_NAME_LENGTH } from '../../utils/storage';
+import './EventSwitcher.css';
+
+export const EventSwitcher: React.FC = () => {
+  const {
+    events,
+    activeEventId,
+    switchEvent,
+    createEvent,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleSwitch = (eventId: string) => {
+    switchEvent(eventId);
+    playSound('click', soundEnabled);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    createEvent(newName);
+    setNewName('');
+    setIsCreating(false);
+    playSound('click', soundEnabled);
+  };
+
+  return (
+    <div className="event-switcher">
+      <div className="event-switcher-row">
+        <select
+          value={activeEventId}
+          onChange={(e) => handleSwitch(e.target.value)}
+          className="event-select"
+          aria-label="Çekiliş"
+        >
+          {events.map(event => (
+            <option key={event.id} value={event.id}>
+              🎄 {event.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="event-new-button"
+          onClick={() => setIsCreating(!isCreating)}
+          title="Yeni çekiliş"
+        >
+          {isCreating ? '✕' : '➕ Yeni'}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {isCreating && (
+          <motion.form
+            onSubmit={handleCreate}
+            className="event-switcher-row"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Çekiliş adı (ör. Ofis, Aile)"
+              className="event-name-input"
+              maxLength={MAX_EVENT_NAME_LENGTH}
+              autoFocus
+            />
+            <button type="submit" className="event-new-button" disabled={!newName.trim()}>
+              Oluştur
+            </button>
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { EventSwitcher } from './EventSwitcher';
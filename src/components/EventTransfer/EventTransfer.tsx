@@ -0,0 +1,248 @@
+/**
+ * Event Transfer Component
+ * Saves the open event to a file (the whole event as JSON, participants as
+ * CSV) and imports one, after showing what it will replace or merge
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type {
+  ParticipantImportMode,
+  ParticipantImportPreview,
+  ParticipantImportRow,
+} from '../../types';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound } from '../../utils/sound';
+import {
+  type EventFile,
+  MAX_IMPORT_FILE_BYTES,
+  applyParticipantImport,
+  downloadTextFile,
+  getExportFileName,
+  parseEventFile,
+  parseParticipantCsv,
+  participantsToCsv,
+} from '../../utils/eventFile';
+import { DEFAULT_EVENT_NAME } from '../../utils/storage';
+import './EventTransfer.css';
+
+// A read file waiting for the organizer to confirm
+type PendingImport =
+  | { kind: 'event'; text: string; file: EventFile }
+  | { kind: 'participants'; rows: ParticipantImportRow[]; invalid: number };
+
+export const EventTransfer: React.FC = () => {
+  const {
+    participants,
+    isDrawComplete,
+    events,
+    activeEventId,
+    exportEventFile,
+    importEventFile,
+    importParticipants,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [mode, setMode] = useState<ParticipantImportMode>('merge');
+  const [notice, setNotice] = useState('');
+
+  const eventName = events.find(event => event.id === activeEventId)?.name ?? DEFAULT_EVENT_NAME;
+
+  const handleExportEvent = () => {
+    const text = exportEventFile();
+    if (!text) return;
+    downloadTextFile(getExportFileName(eventName, 'json'), text, 'application/json');
+    playSound('click', soundEnabled);
+  };
+
+  const handleExportParticipants = () => {
+    downloadTextFile(
+      getExportFileName(eventName, 'csv'),
+      participantsToCsv(participants),
+      'text/csv;charset=utf-8'
+    );
+    playSound('click', soundEnabled);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const selected = input.files?.[0];
+    // The same file can be picked again after a cancel
+    input.value = '';
+    setPending(null);
+    if (!selected) return;
+
+    if (selected.size > MAX_IMPORT_FILE_BYTES) {
+      setNotice('❌ Dosya çok büyük.');
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await selected.text();
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      setNotice('❌ Dosya okunamadı.');
+      return;
+    }
+
+    // A JSON file is a whole event; anything else is read as CSV
+    if (selected.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{')) {
+      const file = parseEventFile(text);
+      if (!file) {
+        setNotice('❌ Bu dosya bir çekiliş yedeği değil ya da bozuk.');
+        return;
+      }
+      setNotice('');
+      setPending({ kind: 'event', text, file });
+      return;
+    }
+
+    if (isDrawComplete) {
+      setNotice('❌ Kura çekildikten sonra katılımcı listesi içe aktarılamaz.');
+      return;
+    }
+    const { rows, invalid } = parseParticipantCsv(text);
+    if (rows.length === 0) {
+      setNotice('❌ Dosyada okunabilir katılımcı bulunamadı.');
+      return;
+    }
+    setNotice('');
+    setPending({ kind: 'participants', rows, invalid });
+  };
+
+  const handleConfirm = () => {
+    if (!pending) return;
+
+    if (pending.kind === 'event') {
+      setNotice(importEventFile(pending.text)
+        ? '✅ Çekiliş dosyadan yüklendi.'
+        : '❌ Dosyadaki kura geçersiz; hiçbir şey değiştirilmedi.');
+    } else {
+      const preview = importParticipants(pending.rows, mode);
+      setNotice(preview
+        ? `✅ ${preview.added.length} eklendi, ${preview.updated.length} güncellendi, ${preview.removed.length} çıkarıldı.`
+        : '❌ Katılımcılar içe aktarılamadı.');
+    }
+    setPending(null);
+    playSound('success', soundEnabled);
+  };
+
+  const renderEventPreview = (file: EventFile) => {
+    const revealed = file.state.revealedParticipants.length;
+    return (
+      <>
+        <p>
+          <strong>{file.name || 'Adsız çekiliş'}</strong>
+          {file.exportedAt && ` · ${new Date(file.exportedAt).toLocaleString('tr-TR')}`}
+        </p>
+        <p>
+          {file.state.participants.length} katılımcı
+          {file.state.isDrawComplete
+            ? ` · kura çekilmiş · ${revealed} kişi eşleşmesini görmüş`
+            : ' · kura çekilmemiş'}
+          {file.state.history.length > 0 && ` · ${file.state.history.length} geçmiş tur`}
+        </p>
+        <p className="event-transfer-warning">
+          ⚠️ Bu çekilişin katılımcıları ({participants.length}), kuralları, eşleşmeleri ve
+          geçmişi dosyadakilerle değiştirilecek. Organizatör parolası aynı kalır.
+        </p>
+      </>
+    );
+  };
+
+  const renderParticipantPreview = (preview: ParticipantImportPreview, invalid: number) => (
+    <>
+      <div className="event-transfer-modes">
+        <label>
+          <input
+            type="radio"
+            checked={mode === 'merge'}
+            onChange={() => setMode('merge')}
+          />
+          Listeye ekle
+        </label>
+        <label>
+          <input
+            type="radio"
+            checked={mode === 'replace'}
+            onChange={() => setMode('replace')}
+          />
+          Listeyi değiştir
+        </label>
+      </div>
+      {preview.added.length > 0 && <p>➕ Eklenecek: {preview.added.join(', ')}</p>}
+      {preview.updated.length > 0 && <p>✏️ Güncellenecek: {preview.updated.join(', ')}</p>}
+      {preview.removed.length > 0 && (
+        <p className="event-transfer-warning">➖ Çıkarılacak: {preview.removed.join(', ')}</p>
+      )}
+      {preview.unchanged.length > 0 && <p>Aynı kalacak: {preview.unchanged.length} kişi</p>}
+      {invalid > 0 && <p>{invalid} satır okunamadı ya da tekrar ediyor</p>}
+    </>
+  );
+
+  // What the participant file would change, with the chosen mode
+  const participantPreview = pending?.kind === 'participants'
+    ? applyParticipantImport(participants, pending.rows, mode, () => '').preview
+    : null;
+  const hasChanges = !participantPreview ||
+    participantPreview.added.length + participantPreview.updated.length +
+    participantPreview.removed.length > 0;
+
+  return (
+    <div className="event-transfer">
+      <p className="event-transfer-title">Yedekle ve taşı</p>
+      <div className="event-transfer-actions">
+        <button className="event-transfer-button" onClick={handleExportEvent}>
+          💾 Çekilişi Kaydet (JSON)
+        </button>
+        <button
+          className="event-transfer-button"
+          onClick={handleExportParticipants}
+          disabled={participants.length === 0}
+        >
+          📄 Katılımcılar (CSV)
+        </button>
+        <label className="event-transfer-button">
+          📂 Dosyadan Yükle
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileChange}
+            hidden
+          />
+        </label>
+      </div>
+
+      <AnimatePresence>
+        {pending && (
+          <motion.div
+            className="event-transfer-preview"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            {pending.kind === 'event'
+              ? renderEventPreview(pending.file)
+              : participantPreview && renderParticipantPreview(participantPreview, pending.invalid)}
+            <div className="event-transfer-actions">
+              <button
+                className="event-transfer-button"
+                onClick={handleConfirm}
+                disabled={!hasChanges}
+              >
+                ✅ İçe Aktar
+              </button>
+              <button className="event-transfer-cancel" onClick={() => setPending(null)}>
+                Vazgeç
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {notice && <p className="event-transfer-notice">{notice}</p>}
+    </div>
+  );
+};
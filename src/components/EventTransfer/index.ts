@@ -0,0 +1 @@
+export { EventTransfer } from './EventTransfer';
@@ -0,0 +1,97 @@
+/**
+ * Hold To View Component
+ * Shows a participant their match again only while they hold it down,
+ * so it is never left on screen for the next person
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import type { Participant } from '../../types';
+import './HoldToView.css';
+
+interface HoldToViewProps {
+  participantName: string;
+  receivers: Participant[];
+  onClose: () => void;
+}
+
+export const HoldToView: React.FC<HoldToViewProps> = ({
+  participantName,
+  receivers,
+  onClose,
+}) => {
+  const [isHolding, setIsHolding] = useState(false);
+
+  // Switching tabs or windows mid-hold would never send the release
+  useEffect(() => {
+    const release = () => setIsHolding(false);
+    window.addEventListener('blur', release);
+    document.addEventListener('visibilitychange', release);
+    return () => {
+      window.removeEventListener('blur', release);
+      document.removeEventListener('visibilitychange', release);
+    };
+  }, []);
+
+  // Space or Enter held down works like a held pointer
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      setIsHolding(true);
+    }
+  };
+
+  const handleKeyUp = (e: React.KeyboardEvent) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      setIsHolding(false);
+    }
+  };
+
+  return (
+    <motion.div
+      className="hold-view-backdrop"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="hold-view"
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+      >
+        <h2 className="hold-view-title">🎁 {participantName}</h2>
+
+        <button
+          className={`hold-view-card ${isHolding ? 'holding' : ''}`}
+          onPointerDown={() => setIsHolding(true)}
+          onPointerUp={() => setIsHolding(false)}
+          onPointerLeave={() => setIsHolding(false)}
+          onPointerCancel={() => setIsHolding(false)}
+          onKeyDown={handleKeyDown}
+          onKeyUp={handleKeyUp}
+          onBlur={() => setIsHolding(false)}
+          onContextMenu={(e) => e.preventDefault()}
+          autoFocus
+        >
+          {isHolding ? (
+            <span className="hold-view-names">
+              {receivers.map(r => r.name).join(', ')}
+            </span>
+          ) : (
+            <span className="hold-view-hint">
+              👆 Görmek için basılı tutun
+            </span>
+          )}
+        </button>
+
+        <p className="hold-view-note">
+          Bıraktığınızda isim gizlenir. Bu görüntüleme kayıt altına alındı.
+        </p>
+
+        <button className="hold-view-close" onClick={onClose}>
+          Kapat
+        </button>
+      </motion.div>
+    </motion.div>
+  );
+};
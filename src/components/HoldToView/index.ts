@@ -0,0 +1 @@
+export { HoldToView } from './HoldToView';
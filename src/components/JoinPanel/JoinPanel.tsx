@@ -0,0 +1,213 @@
+/**
+ * Join Panel Component
+ * Lets participants add themselves: the organizer opens registration, hands
+ * out the join link, and registrations fill in the participant list
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { JoinResult } from '../../types';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { QrFullscreen } from '../QrCode/QrFullscreen';
+import { playSound } from '../../utils/sound';
+import { getJoinUrl, parseJoinTokens } from '../../utils/join';
+import { getJoinTransport } from '../../utils/joinTransport';
+import '../ShareLinks/ShareLinksPanel.css';
+import './JoinPanel.css';
+
+/**
+ * One line about what adding registrations did
+ */
+function describeJoinResult(result: JoinResult, invalid = 0): string {
+  const parts: string[] = [];
+  if (result.added.length > 0) {
+    parts.push(`✅ Eklendi: ${result.added.join(', ')}`);
+  }
+  if (result.skipped.length > 0) {
+    parts.push(`Zaten listede: ${result.skipped.join(', ')}`);
+  }
+  if (invalid > 0) {
+    parts.push(`${invalid} kod okunamadı`);
+  }
+  return parts.join(' · ') || 'Bu etkinliğe ait yeni kayıt bulunamadı.';
+}
+
+export const JoinPanel: React.FC = () => {
+  const {
+    joinCode,
+    openRegistration,
+    closeRegistration,
+    addJoinRequests,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const [tokenText, setTokenText] = useState('');
+  const [notice, setNotice] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [showQr, setShowQr] = useState(false);
+
+  const transport = getJoinTransport();
+  const joinUrl = joinCode ? getJoinUrl(joinCode) : '';
+
+  // Live registrations; the server resends every one on each update, so
+  // names the event already took are skipped (removing someone sticks)
+  useEffect(() => {
+    if (!joinCode) return;
+
+    return transport.subscribe(joinCode, requests => {
+      const { handledJoinNames } = useSecretSantaStore.getState();
+      const fresh = requests.filter(
+        request => !handledJoinNames.includes(request.name.toLowerCase())
+      );
+      if (fresh.length === 0) return;
+
+      const result = addJoinRequests(fresh);
+      if (result.added.length > 0) {
+        setNotice(describeJoinResult(result));
+        playSound('click', useSecretSantaStore.getState().soundEnabled);
+      }
+    });
+  }, [joinCode, transport, addJoinRequests]);
+
+  const handleOpen = () => {
+    openRegistration();
+    setNotice('');
+    playSound('click', soundEnabled);
+  };
+
+  const handleClose = () => {
+    closeRegistration();
+    setNotice('');
+    setShowQr(false);
+    playSound('click', soundEnabled);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(joinUrl);
+    } catch {
+      // Fallback for older browsers
+      const textArea = document.createElement('textarea');
+      textArea.value = joinUrl;
+      document.body.appendChild(textArea);
+      textArea.select();
+      document.execCommand('copy');
+      document.body.removeChild(textArea);
+    }
+    setCopied(true);
+    playSound('click', soundEnabled);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleAddTokens = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { requests, invalid } = parseJoinTokens(tokenText);
+    if (requests.length === 0 && invalid === 0) {
+      setNotice('Yapıştırılan metinde katılım kodu yok.');
+      return;
+    }
+
+    setNotice(describeJoinResult(addJoinRequests(requests), invalid));
+    setTokenText('');
+    playSound('click', soundEnabled);
+  };
+
+  if (!joinCode) {
+    return (
+      <div className="join-panel">
+        <h2 className="section-title">📝 Kendin Katıl</h2>
+        <p className="join-hint">
+          Herkes kendi adını (ve istersen dilek listesini) yazsın: bir katılım kodu
+          oluşturun, linki paylaşın, kayıtlar listeye eklensin.
+        </p>
+        <motion.button
+          className="join-open-button"
+          onClick={handleOpen}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          📝 Kayıt Aç
+        </motion.button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="join-panel">
+      <h2 className="section-title">📝 Kendin Katıl</h2>
+      <p className="join-code">{joinCode}</p>
+
+      <div className="share-link-container">
+        <input
+          type="text"
+          value={joinUrl}
+          readOnly
+          className="share-link-input"
+          onClick={(e) => (e.target as HTMLInputElement).select()}
+        />
+        <motion.button
+          className="copy-button"
+          onClick={handleCopyLink}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {copied ? '✅ Kopyalandı!' : '📋 Kopyala'}
+        </motion.button>
+        <motion.button
+          className="qr-button"
+          onClick={() => setShowQr(true)}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          📱 QR
+        </motion.button>
+      </div>
+
+      <p className="join-hint">
+        {transport.isLive
+          ? '📡 Kayıtlar geldikçe listeye eklenir. Bağlantı kuramayanlar size bir katılım kodu gönderir.'
+          : 'Katılımcılar kayıttan sonra size bir katılım kodu (KATIL-...) gönderir; gelenleri aşağıya yapıştırın.'}
+      </p>
+
+      <form onSubmit={handleAddTokens} className="join-token-form">
+        <textarea
+          value={tokenText}
+          onChange={(e) => setTokenText(e.target.value)}
+          placeholder="KATIL-... kodlarını buraya yapıştırın (birden fazla olabilir)"
+          className="join-token-input"
+          rows={3}
+        />
+        <button type="submit" className="join-add-button" disabled={!tokenText.trim()}>
+          ➕ Kayıtları Ekle
+        </button>
+      </form>
+
+      <AnimatePresence>
+        {notice && (
+          <motion.p
+            className="join-notice"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+          >
+            {notice}
+          </motion.p>
+        )}
+      </AnimatePresence>
+
+      <button className="join-close-button" onClick={handleClose}>
+        Kaydı Kapat
+      </button>
+
+      <AnimatePresence>
+        {showQr && (
+          <QrFullscreen
+            url={joinUrl}
+            title="Katılım"
+            onClose={() => setShowQr(false)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
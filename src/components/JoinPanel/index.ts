@@ -0,0 +1 @@
+export { JoinPanel } from './JoinPanel';
@@ -0,0 +1,167 @@
+/**
+ * Organizer Gate Component
+ * Keeps the setup screen behind the organizer password and locks it again
+ * after a period of inactivity
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import {
+  MIN_ORGANIZER_PASSWORD_LENGTH,
+  ORGANIZER_IDLE_TIMEOUT_MS,
+} from '../../utils/organizer';
+import './OrganizerGate.css';
+
+// Input that counts as the organizer still being at the device
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+interface OrganizerGateProps {
+  children: React.ReactNode;
+}
+
+export const OrganizerGate: React.FC<OrganizerGateProps> = ({ children }) => {
+  const {
+    organizerLock,
+    isOrganizerUnlocked,
+    isSharedSession,
+    isDrawComplete,
+    createOrganizerPassword,
+    unlockOrganizer,
+    lockOrganizer,
+    setScreen,
+  } = useSecretSantaStore();
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Auto-lock after inactivity
+  useEffect(() => {
+    if (!isOrganizerUnlocked) return;
+
+    let timer = window.setTimeout(lockOrganizer, ORGANIZER_IDLE_TIMEOUT_MS);
+    const handleActivity = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockOrganizer, ORGANIZER_IDLE_TIMEOUT_MS);
+    };
+
+    ACTIVITY_EVENTS.forEach(event =>
+      window.addEventListener(event, handleActivity, { capture: true, passive: true })
+    );
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event =>
+        window.removeEventListener(event, handleActivity, { capture: true })
+      );
+    };
+  }, [isOrganizerUnlocked, lockOrganizer]);
+
+  if (isOrganizerUnlocked) {
+    return <>{children}</>;
+  }
+
+  const isCreating = !organizerLock;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isCreating) {
+      if (password.length < MIN_ORGANIZER_PASSWORD_LENGTH) {
+        setError(`Parola en az ${MIN_ORGANIZER_PASSWORD_LENGTH} karakter olmalı`);
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('Parolalar eşleşmiyor');
+        return;
+      }
+    }
+
+    setIsChecking(true);
+    const success = isCreating
+      ? await createOrganizerPassword(password)
+      : await unlockOrganizer(password);
+    setIsChecking(false);
+
+    setPassword('');
+    setConfirmPassword('');
+    setError(success ? '' : isCreating ? 'Parola kaydedilemedi' : '❌ Parola yanlış');
+  };
+
+  // A device opened from a share link has no organizer
+  if (isSharedSession) {
+    return (
+      <motion.div
+        className="organizer-gate"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+      >
+        <h2 className="organizer-gate-title">🔒 Organizatör Ekranı</h2>
+        <p className="organizer-gate-hint">
+          Bu cihaz paylaşılan bir kura linkiyle açıldı. Katılımcıları düzenlemek ve
+          linkleri paylaşmak yalnızca organizatörün cihazında mümkün.
+        </p>
+        <button className="organizer-gate-back" onClick={() => setScreen('select')}>
+          ← Çekilişe Dön
+        </button>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      className="organizer-gate"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      <h2 className="organizer-gate-title">
+        {isCreating ? '🎄 Yeni Çekiliş' : '🔒 Organizatör Ekranı'}
+      </h2>
+
+      <form onSubmit={handleSubmit} className="organizer-gate-form">
+        <p className="organizer-gate-hint">
+          {isCreating
+            ? 'Bir organizatör parolası belirleyin. Katılımcı düzenleme, paylaşım linkleri ve sıfırlama bu parolayla korunur. Parola unutulursa kurtarılamaz.'
+            : 'Devam etmek için organizatör parolasını girin.'}
+        </p>
+        <input
+          type="password"
+          autoComplete={isCreating ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={(e) => { setPassword(e.target.value); setError(''); }}
+          placeholder="Organizatör parolası"
+          className="organizer-gate-input"
+          autoFocus
+        />
+        {isCreating && (
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => { setConfirmPassword(e.target.value); setError(''); }}
+            placeholder="Parola (tekrar)"
+            className="organizer-gate-input"
+          />
+        )}
+        <button
+          type="submit"
+          className="organizer-gate-button"
+          disabled={!password || isChecking}
+        >
+          {isChecking ? '⏳' : isCreating ? '💾 Parolayı Kaydet' : '🔓 Aç'}
+        </button>
+      </form>
+
+      {error && <p className="organizer-gate-error">{error}</p>}
+
+      {isDrawComplete && (
+        <button className="organizer-gate-back" onClick={() => setScreen('select')}>
+          ← Çekilişe Dön
+        </button>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { OrganizerGate } from './OrganizerGate';
@@ -0,0 +1,117 @@
+/**
+ * PIN Prompt Component
+ * Asks a participant for their PIN (or to choose one) before the spin
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MAX_PIN_LENGTH, MIN_PIN_LENGTH, isValidPin } from '../../utils/pin';
+import './PinPrompt.css';
+
+interface PinPromptProps {
+  participantName: string;
+  // 'create': choose a PIN (typed twice), 'enter': type the existing one
+  mode: 'create' | 'enter';
+  // Replaces the default explanation under the name
+  hint?: string;
+  // Resolves to an error message, or null when the PIN was accepted
+  onSubmit: (pin: string) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+export const PinPrompt: React.FC<PinPromptProps> = ({
+  participantName,
+  mode,
+  hint,
+  onSubmit,
+  onCancel,
+}) => {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidPin(pin)) {
+      setError(`PIN ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} haneli bir sayı olmalı`);
+      return;
+    }
+    if (mode === 'create' && pin !== confirmPin) {
+      setError('PIN\'ler eşleşmiyor');
+      return;
+    }
+
+    setIsChecking(true);
+    const message = await onSubmit(pin);
+    setIsChecking(false);
+    if (message) {
+      setError(message);
+      setPin('');
+      setConfirmPin('');
+    }
+  };
+
+  // Digits only, so the numeric keypad is enough on phones
+  const handlePinChange = (value: string, update: (value: string) => void) => {
+    update(value.replace(/\D/g, '').slice(0, MAX_PIN_LENGTH));
+    setError('');
+  };
+
+  return (
+    <motion.div
+      className="pin-prompt-backdrop"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.form
+        className="pin-prompt"
+        onSubmit={handleSubmit}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+      >
+        <h2 className="pin-prompt-title">🔒 {participantName}</h2>
+        <p className="pin-prompt-hint">
+          {hint ?? (mode === 'create'
+            ? 'Çarkı çevirmeden önce sadece sizin bildiğiniz bir PIN belirleyin.'
+            : 'Çarkı çevirmek için PIN\'inizi girin.')}
+        </p>
+
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          value={pin}
+          onChange={(e) => handlePinChange(e.target.value, setPin)}
+          placeholder="PIN"
+          className="pin-input"
+          autoFocus
+        />
+        {mode === 'create' && (
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="off"
+            value={confirmPin}
+            onChange={(e) => handlePinChange(e.target.value, setConfirmPin)}
+            placeholder="PIN (tekrar)"
+            className="pin-input"
+          />
+        )}
+
+        {error && <p className="pin-error">{error}</p>}
+
+        <div className="pin-actions">
+          <button type="button" className="pin-cancel" onClick={onCancel}>
+            Vazgeç
+          </button>
+          <button type="submit" className="pin-submit" disabled={isChecking}>
+            {isChecking ? '⏳' : mode === 'create' ? 'PIN\'i Kaydet' : 'Devam'}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+};
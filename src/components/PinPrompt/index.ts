@@ -0,0 +1 @@
+export { PinPrompt } from './PinPrompt';
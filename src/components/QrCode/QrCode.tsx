@@ -0,0 +1,55 @@
+/**
+ * QR Code Component
+ * Renders a link as a crisp SVG QR code, generated on the device
+ */
+
+import React, { useMemo } from 'react';
+import { encodeQrCode } from '../../utils/qrCode';
+import './QrCode.css';
+
+interface QrCodeProps {
+  value: string;
+  className?: string;
+}
+
+// Light border scanners need around the code, in modules
+const QUIET_ZONE = 4;
+
+export const QrCode: React.FC<QrCodeProps> = ({ value, className = '' }) => {
+  const qr = useMemo(() => encodeQrCode(value), [value]);
+
+  // One path for all dark modules keeps the DOM small for large versions
+  const path = useMemo(() => {
+    if (!qr) return '';
+    const parts: string[] = [];
+    qr.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) parts.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      });
+    });
+    return parts.join('');
+  }, [qr]);
+
+  if (!qr) {
+    return (
+      <p className={`qr-code-error ${className}`}>
+        Link QR kod için çok uzun
+      </p>
+    );
+  }
+
+  const viewSize = qr.size + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      className={`qr-code ${className}`}
+      viewBox={`0 0 ${viewSize} ${viewSize}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR kod"
+    >
+      <rect width={viewSize} height={viewSize} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
@@ -0,0 +1,48 @@
+/**
+ * QR Fullscreen Component
+ * Shows one link's QR code as large as the screen allows, for scanning
+ * off the organizer's screen
+ */
+
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { motion } from 'framer-motion';
+import { QrCode } from './QrCode';
+import './QrCode.css';
+
+interface QrFullscreenProps {
+  url: string;
+  // Whose link it is ('' for the link with every pairing)
+  title: string;
+  onClose: () => void;
+}
+
+export const QrFullscreen: React.FC<QrFullscreenProps> = ({ url, title, onClose }) => {
+  // Escape closes the view
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  // Portaled so transformed parents can't shrink the fixed overlay
+  return createPortal(
+    <motion.div
+      className="qr-fullscreen"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      {title && <h2 className="qr-fullscreen-title">🎁 {title}</h2>}
+      <QrCode value={url} className="qr-fullscreen-code" />
+      <p className="qr-fullscreen-hint">Telefonunuzun kamerasıyla okutun</p>
+      <button className="qr-fullscreen-close" onClick={onClose}>
+        ✕ Kapat
+      </button>
+    </motion.div>,
+    document.body
+  );
+};
@@ -0,0 +1,2 @@
+export { QrCode } from './QrCode';
+export { QrFullscreen } from './QrFullscreen';
@@ -0,0 +1,269 @@
+/**
+ * Share Links Panel Component
+ * Lists the links that hand the draw to participants, optionally encrypted
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { QrFullscreen } from '../QrCode/QrFullscreen';
+import { playSound } from '../../utils/sound';
+import {
+  createFragmentShareKey,
+  createPassphraseShareKey,
+  encryptShareLink,
+} from '../../utils/shareCrypto';
+import './ShareLinksPanel.css';
+
+// 'personal': one private link per person, 'single': one link with every pairing
+type ShareMode = 'personal' | 'single';
+
+// 'none': plain links, 'fragment': key inside the link after '#',
+// 'passphrase': key from a passphrase given out separately
+type LinkLock = 'none' | 'fragment' | 'passphrase';
+
+const LOCK_OPTIONS: { lock: LinkLock; label: string; hint: string }[] = [
+  {
+    lock: 'fragment',
+    label: '🔑 Anahtarlı',
+    hint: 'Anahtar linkin # kısmında durur ve sunucuya hiç gönderilmez.',
+  },
+  {
+    lock: 'passphrase',
+    label: '🔐 Parolalı',
+    hint: 'Link açılırken parola sorulur; parolayı ayrı bir yoldan iletin.',
+  },
+  {
+    lock: 'none',
+    label: '📄 Şifresiz',
+    hint: 'Linki ele geçiren herkes içeriğini okuyabilir.',
+  },
+];
+
+// One link in the list ('all' key for the single link)
+interface ShareLinkRow {
+  key: string;
+  name: string;
+  url: string;
+}
+
+// Wait for typing to settle; stretching a passphrase is slow on purpose
+const PASSPHRASE_DEBOUNCE_MS = 400;
+
+export const ShareLinksPanel: React.FC = () => {
+  const {
+    participants,
+    assignments,
+    constraints,
+    settings,
+    commitment,
+    generateShareLink,
+    generatePersonalShareLinks,
+    soundEnabled,
+  } = useSecretSantaStore();
+
+  const [shareMode, setShareMode] = useState<ShareMode>('personal');
+  const [linkLock, setLinkLock] = useState<LinkLock>('fragment');
+  const [passphrase, setPassphrase] = useState('');
+  // Which link was just copied ('all' for the single link, else a participant id)
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  // Link shown as a fullscreen QR code
+  const [qrLink, setQrLink] = useState<ShareLinkRow | null>(null);
+  // Finished links and the options they were made with
+  const [built, setBuilt] = useState<{ source: string; links: ShareLinkRow[] } | null>(null);
+
+  const sealSource = JSON.stringify([shareMode, linkLock, passphrase]);
+  const canBuild = linkLock !== 'passphrase' || passphrase !== '';
+
+  // Encode (and encrypt, with one key for all) the links whenever the draw,
+  // its commitment or the options change
+  useEffect(() => {
+    if (!canBuild) return;
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      const plainLinks: ShareLinkRow[] = shareMode === 'single'
+        ? [{ key: 'all', name: '', url: await generateShareLink() }]
+        : (await generatePersonalShareLinks()).map(({ participant, url }) => ({
+            key: participant.id,
+            name: participant.name,
+            url,
+          }));
+
+      let links = plainLinks;
+      if (linkLock !== 'none') {
+        const key = linkLock === 'passphrase'
+          ? await createPassphraseShareKey(passphrase)
+          : await createFragmentShareKey();
+        links = await Promise.all(plainLinks.map(async link => ({
+          ...link,
+          url: await encryptShareLink(link.url, key),
+        })));
+      }
+      if (!cancelled) setBuilt({ source: sealSource, links });
+    }, linkLock === 'passphrase' ? PASSPHRASE_DEBOUNCE_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    canBuild,
+    shareMode,
+    linkLock,
+    passphrase,
+    sealSource,
+    participants,
+    assignments,
+    constraints,
+    settings,
+    commitment,
+    generateShareLink,
+    generatePersonalShareLinks,
+  ]);
+
+  // null while links are being built (or wait for a passphrase)
+  const links = canBuild && built?.source === sealSource ? built.links : null;
+
+  const handleCopyLink = async (link: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedKey(key);
+      playSound('click', soundEnabled);
+      setTimeout(() => setCopiedKey(null), 2000);
+    } catch {
+      // Fallback for older browsers
+      const textArea = document.createElement('textarea');
+      textArea.value = link;
+      document.body.appendChild(textArea);
+      textArea.select();
+      document.execCommand('copy');
+      document.body.removeChild(textArea);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 2000);
+    }
+  };
+
+  const handleShowQr = (link: ShareLinkRow) => {
+    setQrLink(link);
+    playSound('click', soundEnabled);
+  };
+
+  const copyLabel = (key: string) => {
+    return copiedKey === key ? '✅ Kopyalandı!' : '📋 Kopyala';
+  };
+
+  const activeLock = LOCK_OPTIONS.find(o => o.lock === linkLock);
+
+  return (
+    <div className="share-links">
+      <div className="share-mode-toggle">
+        <button
+          className={`share-mode-option ${shareMode === 'personal' ? 'active' : ''}`}
+          onClick={() => setShareMode('personal')}
+        >
+          🔒 Kişiye Özel
+        </button>
+        <button
+          className={`share-mode-option ${shareMode === 'single' ? 'active' : ''}`}
+          onClick={() => setShareMode('single')}
+        >
+          🔗 Tek Link
+        </button>
+      </div>
+      <p className="share-description">
+        {shareMode === 'personal'
+          ? 'Her linki yalnızca sahibine gönderin. Link sadece o kişinin eşleşmesini içerir ve doğrudan çarkı açar.'
+          : 'Bu linki katılımcılarla paylaşın. Herkes kendi cihazından girip kurasını görebilir! Link tüm eşleşmeleri içerir.'}
+      </p>
+
+      <div className="share-mode-toggle">
+        {LOCK_OPTIONS.map(option => (
+          <button
+            key={option.lock}
+            className={`share-mode-option ${linkLock === option.lock ? 'active' : ''}`}
+            onClick={() => setLinkLock(option.lock)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {activeLock && <p className="share-description">{activeLock.hint}</p>}
+      {linkLock === 'passphrase' && (
+        <input
+          type="text"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Link parolası"
+          className="share-passphrase-input"
+        />
+      )}
+
+      {!links ? (
+        <p className="share-description">
+          {canBuild ? '⏳ Linkler hazırlanıyor...' : '🔐 Linkleri oluşturmak için bir parola girin'}
+        </p>
+      ) : shareMode === 'single' ? (
+        <div className="share-link-container">
+          <input 
+            type="text" 
+            value={links[0]?.url ?? ''} 
+            readOnly 
+            className="share-link-input"
+            onClick={(e) => (e.target as HTMLInputElement).select()}
+          />
+          <motion.button
+            className="copy-button"
+            onClick={() => links[0] && handleCopyLink(links[0].url, 'all')}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            {copyLabel('all')}
+          </motion.button>
+          <motion.button
+            className="qr-button"
+            onClick={() => links[0] && handleShowQr(links[0])}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            📱 QR
+          </motion.button>
+        </div>
+      ) : (
+        <ul className="personal-links">
+          {links.map(link => (
+            <li key={link.key} className="personal-link-row">
+              <span className="personal-link-name">🎁 {link.name}</span>
+              <motion.button
+                className="copy-button"
+                onClick={() => handleCopyLink(link.url, link.key)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                {copyLabel(link.key)}
+              </motion.button>
+              <motion.button
+                className="qr-button"
+                onClick={() => handleShowQr(link)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                📱 QR
+              </motion.button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AnimatePresence>
+        {qrLink && (
+          <QrFullscreen
+            url={qrLink.url}
+            title={qrLink.name}
+            onClose={() => setQrLink(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
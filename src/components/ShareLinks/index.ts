@@ -0,0 +1 @@
+export { ShareLinksPanel } from './ShareLinksPanel';
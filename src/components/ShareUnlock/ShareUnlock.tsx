@@ -0,0 +1,94 @@
+/**
+ * Share Unlock Component
+ * Asks for the passphrase of an encrypted share link and explains
+ * why a link could not be opened
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import type { ShareDecryptError } from '../../utils/shareCrypto';
+import './ShareUnlock.css';
+
+interface ShareUnlockProps {
+  // Passphrase links ask for it; fragment-key links only report errors
+  needsPassphrase: boolean;
+  error: ShareDecryptError | null;
+  isUnlocking: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Message for a failed unlock
+ */
+function describeError(error: ShareDecryptError, needsPassphrase: boolean): string {
+  switch (error) {
+    case 'wrong-key':
+      return needsPassphrase
+        ? '❌ Parola yanlış. Tekrar deneyin.'
+        : '❌ Linkin anahtarı eksik ya da yanlış. Linki # işaretinden sonrası dahil eksiksiz kopyaladığınızdan emin olun.';
+    case 'tampered':
+      return '⚠️ Link değiştirilmiş ya da bozulmuş; içindeki kuraya güvenilemez. Organizatörden yeni bir link isteyin.';
+    case 'malformed':
+      return '❌ Link okunamadı. Organizatörden yeni bir link isteyin.';
+  }
+}
+
+export const ShareUnlock: React.FC<ShareUnlockProps> = ({
+  needsPassphrase,
+  error,
+  isUnlocking,
+  onSubmit,
+  onCancel,
+}) => {
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase) onSubmit(passphrase);
+  };
+
+  return (
+    <motion.div
+      className="share-unlock"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      <h2 className="share-unlock-title">🔐 Şifreli Kura Linki</h2>
+
+      {needsPassphrase ? (
+        <form onSubmit={handleSubmit} className="share-unlock-form">
+          <p className="share-unlock-hint">
+            Bu link bir parolayla korunuyor. Parolayı organizatörden öğrenebilirsiniz.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Parola"
+            className="share-unlock-input"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="share-unlock-button"
+            disabled={!passphrase || isUnlocking}
+          >
+            {isUnlocking ? '⏳ Açılıyor...' : '🔓 Aç'}
+          </button>
+        </form>
+      ) : !error && (
+        <p className="share-unlock-hint">⏳ Link açılıyor...</p>
+      )}
+
+      {error && (
+        <p className="share-unlock-error">{describeError(error, needsPassphrase)}</p>
+      )}
+
+      <button className="share-unlock-cancel" onClick={onCancel}>
+        Vazgeç
+      </button>
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { ShareUnlock } from './ShareUnlock';
@@ -7,6 +7,7 @@ import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { motion, useAnimation } from 'framer-motion';
 import type { Participant } from '../../types';
 import { playSound, triggerHaptic } from '../../utils/sound';
+import { cryptoRandom, type RandomSource } from '../../utils/random';
 import './SpinningWheel.css';
 
 interface SpinningWheelProps {
@@ -14,6 +15,8 @@ interface SpinningWheelProps {
   targetParticipant: Participant;
   onSpinComplete: () => void;
   soundEnabled: boolean;
+  // Source for the visual randomness (secure by default)
+  random?: RandomSource;
 }
 
 // Festive colors for wheel segments
@@ -33,11 +36,12 @@ export const SpinningWheel: React.FC<SpinningWheelProps> = ({
   targetParticipant,
   onSpinComplete,
   soundEnabled,
+  random = cryptoRandom,
 }) => {
   const [isSpinning, setIsSpinning] = useState(false);
   const [hasSpun, setHasSpun] = useState(false);
   const [landedIndex, setLandedIndex] = useState<number | null>(null);
-  const [, setBaseRotation] = useState(() => Math.random() * 360);
+  const [, setBaseRotation] = useState(() => random.next() * 360);
   const controls = useAnimation();
   
   const segmentAngle = 360 / participants.length;
@@ -53,21 +57,21 @@ export const SpinningWheel: React.FC<SpinningWheelProps> = ({
    */
   const calculateFinalRotation = useCallback(() => {
     // Base rotations for effect (5-8 full rotations)
-    const baseRotations = 5 + Math.floor(Math.random() * 3);
+    const baseRotations = 5 + Math.floor(random.next() * 3);
     const fullRotations = baseRotations * 360;
 
     // Mid-angle of the target slice (from top, going clockwise)
     const targetMidAngle = targetIndex * segmentAngle + segmentAngle / 2;
 
     // Small random offset within the slice to avoid mechanical look
-    const jitter = (Math.random() - 0.5) * (segmentAngle * 0.3);
+    const jitter = (random.next() - 0.5) * (segmentAngle * 0.3);
 
     // To bring target segment to the top (pointer position):
     // We need to rotate the wheel so the target segment's mid-point aligns with 0 degrees (top)
     // Since segments start at top and go clockwise, we rotate by negative of targetMidAngle
     // But CSS rotates clockwise with positive values, so we go: 360 - targetMidAngle
     return fullRotations + (360 - targetMidAngle) + jitter;
-  }, [targetIndex, segmentAngle]);
+  }, [targetIndex, segmentAngle, random]);
 
   const gradient = useMemo(() => {
     // Conic gradient starts at 0deg (right/3 o'clock) by default
@@ -89,7 +93,7 @@ export const SpinningWheel: React.FC<SpinningWheelProps> = ({
     if (isSpinning || hasSpun) return;
     
     // Randomize starting orientation for visual variety
-    const start = Math.random() * 360;
+    const start = random.next() * 360;
     setBaseRotation(start);
     await controls.set({ rotate: start });
 
@@ -104,7 +108,7 @@ export const SpinningWheel: React.FC<SpinningWheelProps> = ({
     await controls.start({
       rotate: targetRotation,
       transition: {
-        duration: 5 + Math.random() * 1.5,
+        duration: 5 + random.next() * 1.5,
         ease: [0.08, 0.82, 0.12, 1],
       },
     });
@@ -128,7 +132,7 @@ export const SpinningWheel: React.FC<SpinningWheelProps> = ({
     
     // Small delay before calling complete
     setTimeout(onSpinComplete, 500);
-  }, [isSpinning, hasSpun, calculateFinalRotation, controls, onSpinComplete, soundEnabled]);
+  }, [isSpinning, hasSpun, calculateFinalRotation, controls, onSpinComplete, soundEnabled, random]);
 
   // Click tick sound during spin
   useEffect(() => {
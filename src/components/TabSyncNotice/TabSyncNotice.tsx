@@ -0,0 +1,39 @@
+/**
+ * Tab Sync Notice Component
+ * Tells that the open event was changed in another tab at the same time,
+ * and which tab's change was kept
+ */
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import './TabSyncNotice.css';
+
+export const TabSyncNotice: React.FC = () => {
+  const { tabSyncConflict, dismissTabSyncConflict } = useSecretSantaStore();
+
+  return (
+    <AnimatePresence>
+      {tabSyncConflict && (
+        <motion.div
+          className="tab-sync-notice"
+          role="alert"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+        >
+          <p>
+            ⚠️ Bu çekiliş başka bir sekmede de aynı anda değiştirildi
+            {tabSyncConflict.fields.length > 0 && ` (${tabSyncConflict.fields.join(', ')})`}.{' '}
+            {tabSyncConflict.keptOwn
+              ? 'Bu sekmedeki değişiklik korundu.'
+              : 'Diğer sekmedeki değişiklik kullanıldı; buradaki değişikliğinizi kontrol edin.'}
+          </p>
+          <button className="tab-sync-notice-dismiss" onClick={dismissTabSyncConflict}>
+            Tamam
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
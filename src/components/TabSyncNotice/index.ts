@@ -0,0 +1 @@
+export { TabSyncNotice } from './TabSyncNotice';
@@ -0,0 +1,114 @@
+/**
+ * Tamper Warning Component
+ * Shown instead of the app when the stored organizer data no longer
+ * matches its signature
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import './TamperWarning.css';
+
+export const TamperWarning: React.FC = () => {
+  const {
+    isOrganizerUnlocked,
+    unlockOrganizer,
+    acceptStoredState,
+    discardStoredState,
+  } = useSecretSantaStore();
+
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    const success = await unlockOrganizer(password);
+    setIsChecking(false);
+    setPassword('');
+    setError(success ? '' : '❌ Parola yanlış. Parola da değiştirilmiş olabilir.');
+  };
+
+  const handleAccept = async () => {
+    setIsChecking(true);
+    const success = await acceptStoredState();
+    setIsChecking(false);
+    if (!success) {
+      setError('❌ Kayıtlı eşleşmeler geçersiz; bu veriler kabul edilemez.');
+    }
+  };
+
+  return (
+    <motion.div
+      className="tamper-warning"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      <h2 className="tamper-warning-title">⚠️ Kayıtlı Veriler Değiştirilmiş</h2>
+      <p className="tamper-warning-text">
+        Bu cihazdaki çekiliş verileri (katılımcılar, kurallar ya da eşleşmeler)
+        organizatör kaydettikten sonra değiştirilmiş görünüyor. Çekiliş, organizatör
+        ne yapılacağına karar verene kadar kullanılamaz.
+      </p>
+
+      {isOrganizerUnlocked ? (
+        <div className="tamper-warning-actions">
+          <p className="tamper-warning-hint">
+            Değişikliği siz yaptıysanız verileri olduğu gibi kabul edebilirsiniz.
+            Emin değilseniz silip kurayı yeniden çekin.
+          </p>
+          <button
+            className="tamper-warning-accept"
+            onClick={handleAccept}
+            disabled={isChecking}
+          >
+            ✅ Verileri Kabul Et
+          </button>
+
+          {confirmDiscard ? (
+            <div className="tamper-warning-discard">
+              <p className="tamper-warning-hint">Tüm çekiliş verileri silinecek. Emin misiniz?</p>
+              <button className="tamper-warning-delete" onClick={discardStoredState}>
+                🗑️ Evet, Sil
+              </button>
+              <button className="tamper-warning-cancel" onClick={() => setConfirmDiscard(false)}>
+                Vazgeç
+              </button>
+            </div>
+          ) : (
+            <button className="tamper-warning-cancel" onClick={() => setConfirmDiscard(true)}>
+              🗑️ Verileri sil ve baştan başla
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleUnlock} className="tamper-warning-actions">
+          <p className="tamper-warning-hint">
+            Organizatör misiniz? Verileri kabul etmek ya da silmek için parolanızı girin.
+          </p>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => { setPassword(e.target.value); setError(''); }}
+            placeholder="Organizatör parolası"
+            className="tamper-warning-input"
+            autoFocus
+          />
+          <button
+            type="submit"
+            className="tamper-warning-accept"
+            disabled={!password || isChecking}
+          >
+            {isChecking ? '⏳' : '🔓 Aç'}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="tamper-warning-error">{error}</p>}
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { TamperWarning } from './TamperWarning';
@@ -0,0 +1,147 @@
+/**
+ * Join Screen Component
+ * Opened from a join link: a participant enters their own name and
+ * wishlist, and the registration goes to the organizer
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { playSound } from '../../utils/sound';
+import {
+  MAX_JOIN_NAME_LENGTH,
+  MAX_WISHLIST_LENGTH,
+  isValidJoinCode,
+  normalizeJoinCode,
+  normalizeJoinRequest,
+} from '../../utils/join';
+import { getJoinTransport, type JoinSubmitResult } from '../../utils/joinTransport';
+import './JoinScreen.css';
+
+interface JoinScreenProps {
+  // Code from the join link, as typed in the URL
+  code: string;
+  onDone: () => void;
+}
+
+export const JoinScreen: React.FC<JoinScreenProps> = ({ code, onDone }) => {
+  const { soundEnabled } = useSecretSantaStore();
+
+  const [name, setName] = useState('');
+  const [wishlist, setWishlist] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<JoinSubmitResult | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const joinCode = normalizeJoinCode(code);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const request = normalizeJoinRequest({ code: joinCode, name, wishlist });
+    if (!request) return;
+
+    setIsSending(true);
+    setResult(await getJoinTransport().submit(request));
+    setIsSending(false);
+    playSound('success', soundEnabled);
+  };
+
+  const handleCopyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      setCopied(true);
+      playSound('click', soundEnabled);
+    } catch (error) {
+      console.error('Failed to copy join token:', error);
+    }
+  };
+
+  const renderContent = () => {
+    if (!isValidJoinCode(joinCode)) {
+      return (
+        <p className="join-screen-error">
+          ❌ Katılım linki geçersiz. Organizatörden linki tekrar isteyin.
+        </p>
+      );
+    }
+
+    if (result?.delivered) {
+      return (
+        <p className="join-screen-hint">
+          ✅ Kaydınız organizatöre ulaştı. Kura çekilince kişisel linkiniz size gönderilecek.
+        </p>
+      );
+    }
+
+    if (result) {
+      return (
+        <>
+          <p className="join-screen-hint">
+            Son bir adım: bu katılım kodunu kopyalayıp organizatöre gönderin.
+          </p>
+          <textarea
+            value={result.token}
+            readOnly
+            className="join-screen-token"
+            rows={3}
+            onClick={(e) => (e.target as HTMLTextAreaElement).select()}
+          />
+          <button
+            className="join-screen-button"
+            onClick={() => handleCopyToken(result.token)}
+          >
+            {copied ? '✅ Kopyalandı!' : '📋 Kodu Kopyala'}
+          </button>
+        </>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit} className="join-screen-form">
+        <p className="join-screen-hint">
+          Etkinlik kodu <strong>{joinCode}</strong>. Adınızı yazın; isterseniz hediye
+          fikirlerinizi de ekleyin, sizi çeken kişi görecek.
+        </p>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Adınız"
+          className="join-screen-input"
+          maxLength={MAX_JOIN_NAME_LENGTH}
+          autoFocus
+        />
+        <textarea
+          value={wishlist}
+          onChange={(e) => setWishlist(e.target.value)}
+          placeholder="Dilek listesi (isteğe bağlı)"
+          className="join-screen-input"
+          maxLength={MAX_WISHLIST_LENGTH}
+          rows={3}
+        />
+        <button
+          type="submit"
+          className="join-screen-button"
+          disabled={!name.trim() || isSending}
+        >
+          {isSending ? '⏳ Gönderiliyor...' : '🎁 Katıl'}
+        </button>
+      </form>
+    );
+  };
+
+  return (
+    <motion.div
+      className="join-screen"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      <h2 className="join-screen-title">📝 Çekilişe Katıl</h2>
+      {renderContent()}
+      <button className="join-screen-cancel" onClick={onDone}>
+        {result ? 'Kapat' : 'Vazgeç'}
+      </button>
+    </motion.div>
+  );
+};
@@ -0,0 +1 @@
+export { JoinScreen } from './JoinScreen';
@@ -2,24 +2,30 @@
  * Reveal Screen - Show the assigned person with celebration
  */
 
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useState } from 'react';
 import { motion } from 'framer-motion';
 import confetti from 'canvas-confetti';
 import { useSecretSantaStore } from '../../store/useSecretSantaStore';
 import { playSound, triggerHaptic } from '../../utils/sound';
+import { formatFingerprint } from '../../utils/commitment';
 import './RevealScreen.css';
 
 export const RevealScreen: React.FC = () => {
   const { 
     selectedParticipant,
-    getAssignmentFor,
+    getAssignmentsFor,
     setScreen,
     soundEnabled,
+    commitment,
+    verifyCommittedAssignment,
   } = useSecretSantaStore();
 
-  const assignedPerson = selectedParticipant 
-    ? getAssignmentFor(selectedParticipant.id) 
-    : null;
+  // null while checking or when there is no commitment to check against
+  const [isVerified, setIsVerified] = useState<boolean | null>(null);
+
+  const assignedPeople = selectedParticipant 
+    ? getAssignmentsFor(selectedParticipant.id) 
+    : [];
 
   // Fire confetti celebration
   const fireConfetti = useCallback(() => {
@@ -104,13 +110,27 @@ export const RevealScreen: React.FC = () => {
     triggerHaptic('heavy');
   }, [fireConfetti, fireSnow, soundEnabled]);
 
+  // Check this device's pair against the published commitment
+  useEffect(() => {
+    if (!selectedParticipant) return;
+    let cancelled = false;
+
+    verifyCommittedAssignment(selectedParticipant.id).then(result => {
+      if (!cancelled) setIsVerified(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedParticipant, verifyCommittedAssignment]);
+
   const handleDone = () => {
     playSound('click', soundEnabled);
     triggerHaptic('light');
     setScreen('select');
   };
 
-  if (!selectedParticipant || !assignedPerson) {
+  if (!selectedParticipant || assignedPeople.length === 0) {
     return (
       <div className="reveal-screen error-state">
         <p>Bir hata oluştu. Lütfen geri dönün.</p>
@@ -154,8 +174,15 @@ export const RevealScreen: React.FC = () => {
             transition={{ delay: 0.5, duration: 0.5 }}
           >
             <span className="gift-icon">🎁</span>
-            <h3 className="receiver-name">{assignedPerson.name}</h3>
+            {assignedPeople.map(person => (
+              <h3 key={person.id} className="receiver-name">{person.name}</h3>
+            ))}
             <p className="receiver-hint">için hediye alacaksınız!</p>
+            {assignedPeople.filter(person => person.wishlist).map(person => (
+              <p key={person.id} className="receiver-wishlist">
+                📝 {assignedPeople.length > 1 && `${person.name}: `}{person.wishlist}
+              </p>
+            ))}
           </motion.div>
         </div>
 
@@ -167,6 +194,14 @@ export const RevealScreen: React.FC = () => {
         >
           <p>🤫 Bu bir sır! Kimseye söylemeyin.</p>
         </motion.div>
+
+        {commitment && isVerified !== null && (
+          <p className={`commitment-check ${isVerified ? 'verified' : 'failed'}`}>
+            {isVerified
+              ? `🔏 Eşleşmeniz yayımlanan kurayla doğrulandı (${formatFingerprint(commitment.root)})`
+              : '⚠️ Eşleşmeniz yayımlanan kurayla uyuşmuyor!'}
+          </p>
+        )}
       </motion.div>
 
       <motion.button
@@ -2,29 +2,85 @@
  * Select Screen - Participant selects themselves
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import type { Participant, PinCheckResult } from '../../types';
+import { CommitmentBadge } from '../../components/CommitmentBadge/CommitmentBadge';
+import { PinPrompt } from '../../components/PinPrompt/PinPrompt';
+import { HoldToView } from '../../components/HoldToView/HoldToView';
 import { playSound, triggerHaptic } from '../../utils/sound';
+import { isInGroup, listGroups } from '../../utils/groups';
 import './SelectScreen.css';
 
+/**
+ * Message shown after a rejected PIN
+ */
+function describePinFailure(result: Extract<PinCheckResult, { ok: false }>): string {
+  if (result.lockedUntil > Date.now()) {
+    const minutes = Math.ceil((result.lockedUntil - Date.now()) / 60_000);
+    return `🔒 Çok fazla yanlış deneme. ${minutes} dakika sonra tekrar deneyin.`;
+  }
+  return `❌ Yanlış PIN. ${result.attemptsLeft} deneme hakkınız kaldı.`;
+}
+
 export const SelectScreen: React.FC = () => {
   const { 
-    participants, 
+    participants: allParticipants, 
+    personalParticipantId,
+    isSharedSession,
+    leaveSharedSession,
     selectParticipant,
+    pins,
+    setParticipantPin,
+    unlockParticipant,
+    reRevealMatch,
     isParticipantRevealed,
     soundEnabled,
     setScreen,
   } = useSecretSantaStore();
 
+  // A personal link only knows its own giver's match
+  const participants = personalParticipantId
+    ? allParticipants.filter(p => p.id === personalParticipantId)
+    : allParticipants;
+
+  // Group shown in the grid (null = everyone)
+  const [groupFilter, setGroupFilter] = useState<string | null>(null);
+  // Participant asked for their PIN before the spin
+  const [pinTarget, setPinTarget] = useState<Participant | null>(null);
+  // Revealed participant asking to see their match again
+  const [reRevealTarget, setReRevealTarget] = useState<Participant | null>(null);
+  // Match being shown again on the hold-to-view card
+  const [heldMatch, setHeldMatch] = useState<{
+    participant: Participant;
+    receivers: Participant[];
+  } | null>(null);
+  const [notice, setNotice] = useState('');
+
+  const groups = listGroups(participants);
+  const visibleParticipants = groupFilter
+    ? participants.filter(p => isInGroup(p, groupFilter))
+    : participants;
+
   const handleSelect = (participantId: string) => {
     const participant = participants.find(p => p.id === participantId);
     if (!participant) return;
 
-    // Check if already revealed
+    // Revealed participants can only see their match again, after
+    // proving who they are
     if (isParticipantRevealed(participantId)) {
       playSound('click', soundEnabled);
       triggerHaptic('light');
+      handleReReveal(participant);
+      return;
+    }
+
+    // Everyone on a shared screen guards their spin with a PIN; a personal
+    // link is private already
+    if (!personalParticipantId) {
+      playSound('click', soundEnabled);
+      setPinTarget(participant);
       return;
     }
 
@@ -35,6 +91,58 @@ export const SelectScreen: React.FC = () => {
     }
   };
 
+  const handlePinSubmit = async (pin: string) => {
+    if (!pinTarget) return null;
+
+    if (!pins[pinTarget.id] && !(await setParticipantPin(pinTarget.id, pin))) {
+      return 'PIN kaydedilemedi, tekrar deneyin';
+    }
+
+    const result = await unlockParticipant(pinTarget, pin);
+    if (result.ok) {
+      setPinTarget(null);
+      triggerHaptic('medium');
+      return null;
+    }
+
+    triggerHaptic('heavy');
+    return describePinFailure(result);
+  };
+
+  const handleReReveal = async (participant: Participant) => {
+    setNotice('');
+
+    // Opening their own personal link already proves who they are
+    if (personalParticipantId === participant.id) {
+      const result = await reRevealMatch(participant, null);
+      if (result.ok) {
+        setHeldMatch({ participant, receivers: result.receivers });
+      }
+      return;
+    }
+
+    if (!pins[participant.id]) {
+      setNotice(`${participant.name} için PIN yok; eşleşmeyi tekrar görmek için organizatörden yardım isteyin.`);
+      return;
+    }
+    setReRevealTarget(participant);
+  };
+
+  const handleReRevealSubmit = async (pin: string) => {
+    if (!reRevealTarget) return null;
+
+    const result = await reRevealMatch(reRevealTarget, pin);
+    if (result.ok) {
+      setHeldMatch({ participant: reRevealTarget, receivers: result.receivers });
+      setReRevealTarget(null);
+      triggerHaptic('medium');
+      return null;
+    }
+
+    triggerHaptic('heavy');
+    return describePinFailure(result);
+  };
+
   const revealedCount = participants.filter(
     p => isParticipantRevealed(p.id)
   ).length;
@@ -60,6 +168,8 @@ export const SelectScreen: React.FC = () => {
         Kendi adınızı seçin ve çarkı çevirin!
       </p>
 
+      <CommitmentBadge />
+
       <div className="progress-bar">
         <div 
           className="progress-fill"
@@ -80,9 +190,31 @@ export const SelectScreen: React.FC = () => {
         </motion.div>
       )}
 
+      {groups.length > 1 && (
+        <div className="group-filter">
+          <button
+            className={`group-chip ${groupFilter === null ? 'active' : ''}`}
+            onClick={() => setGroupFilter(null)}
+          >
+            Tümü
+          </button>
+          {groups.map(group => (
+            <button
+              key={group}
+              className={`group-chip ${groupFilter === group ? 'active' : ''}`}
+              onClick={() => setGroupFilter(group)}
+            >
+              {group}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {notice && <p className="select-notice">{notice}</p>}
+
       <div className="participants-grid">
         <AnimatePresence mode="popLayout">
-          {participants.map((participant, index) => {
+          {visibleParticipants.map((participant, index) => {
             const isRevealed = isParticipantRevealed(participant.id);
             
             return (
@@ -107,7 +239,10 @@ export const SelectScreen: React.FC = () => {
                 </span>
                 <span className="card-name">{participant.name}</span>
                 {isRevealed && (
-                  <span className="revealed-badge">Görüntülendi</span>
+                  <>
+                    <span className="revealed-badge">Görüntülendi</span>
+                    <span className="show-again-hint">🔁 Tekrar göster</span>
+                  </>
                 )}
               </motion.button>
             );
@@ -115,14 +250,53 @@ export const SelectScreen: React.FC = () => {
         </AnimatePresence>
       </div>
 
-      <motion.button
-        className="back-button"
-        onClick={() => setScreen('setup')}
-        whileHover={{ scale: 1.05 }}
-        whileTap={{ scale: 0.95 }}
-      >
-        ← Katılımcıları Görüntüle
-      </motion.button>
+      <AnimatePresence>
+        {pinTarget && (
+          <PinPrompt
+            participantName={pinTarget.name}
+            mode={pins[pinTarget.id] ? 'enter' : 'create'}
+            onSubmit={handlePinSubmit}
+            onCancel={() => setPinTarget(null)}
+          />
+        )}
+        {reRevealTarget && (
+          <PinPrompt
+            participantName={reRevealTarget.name}
+            mode="enter"
+            hint="Eşleşmenizi tekrar görmek için PIN'inizi girin."
+            onSubmit={handleReRevealSubmit}
+            onCancel={() => setReRevealTarget(null)}
+          />
+        )}
+        {heldMatch && (
+          <HoldToView
+            participantName={heldMatch.participant.name}
+            receivers={heldMatch.receivers}
+            onClose={() => setHeldMatch(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Shared links have no organizer screen to go back to */}
+      {isSharedSession ? (
+        <motion.button
+          className="back-button"
+          onClick={leaveSharedSession}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          ← Paylaşılan Çekilişten Çık
+        </motion.button>
+      ) : (
+        <motion.button
+          className="back-button"
+          onClick={() => setScreen('setup')}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          🔒 Organizatör Ekranı
+        </motion.button>
+      )}
     </motion.div>
   );
 };
@@ -5,27 +5,85 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSecretSantaStore } from '../../store/useSecretSantaStore';
+import { ConstraintsEditor } from '../../components/ConstraintsEditor/ConstraintsEditor';
+import { DrawDiagnosticPanel } from '../../components/DrawDiagnostic/DrawDiagnosticPanel';
+import { DrawSettingsPanel } from '../../components/DrawSettings/DrawSettingsPanel';
+import { CommitmentBadge } from '../../components/CommitmentBadge/CommitmentBadge';
+import { ShareLinksPanel } from '../../components/ShareLinks/ShareLinksPanel';
+import { JoinPanel } from '../../components/JoinPanel/JoinPanel';
+import { EventTransfer } from '../../components/EventTransfer/EventTransfer';
 import { playSound, triggerHaptic } from '../../utils/sound';
+import { ORGANIZER_IDLE_TIMEOUT_MS } from '../../utils/organizer';
+import { MAX_GROUP_LENGTH, isSameGroup, listGroups } from '../../utils/groups';
+import { MAX_EVENT_NAME_LENGTH } from '../../utils/storage';
 import './SetupScreen.css';
 
 export const SetupScreen: React.FC = () => {
   const [newName, setNewName] = useState('');
+  // Group of a late joiner (set on the participant card before the draw)
+  const [newGroup, setNewGroup] = useState('');
   const [error, setError] = useState('');
   const [showAdminReset, setShowAdminReset] = useState(false);
-  const [shareLink, setShareLink] = useState('');
-  const [copied, setCopied] = useState(false);
+  const [replayResult, setReplayResult] = useState<boolean | null>(null);
+  // Participant waiting for the organizer to confirm they dropped out
+  const [pendingWithdrawId, setPendingWithdrawId] = useState<string | null>(null);
+  // PINs just generated for the organizer to hand out (shown only once)
+  const [assignedPins, setAssignedPins] = useState<Record<string, string> | null>(null);
+  const [eventName, setEventName] = useState('');
+  const [confirmDeleteEvent, setConfirmDeleteEvent] = useState(false);
   
   const { 
     participants, 
     addParticipant, 
     removeParticipant, 
+    setParticipantGroup,
+    withdrawParticipant,
+    pins,
+    assignParticipantPins,
+    clearParticipantPin,
+    revealAudit,
+    lockOrganizer,
+    addLateParticipant,
     performDraw,
+    startNewRound,
     resetAll,
+    events,
+    activeEventId,
+    renameEvent,
+    deleteEvent,
     soundEnabled,
     isDrawComplete,
-    generateShareLink,
+    drawDiagnostic,
+    history,
+    settings,
+    assignments,
+    verifyDraw,
   } = useSecretSantaStore();
 
+  const groups = listGroups(participants);
+  const activeEvent = events.find(event => event.id === activeEventId);
+
+  // Everyone needs k other people to buy for
+  const minParticipants = Math.max(2, settings.giftsPerPerson + 1);
+  const canDraw = participants.length >= minParticipants;
+  // Someone can drop out only if enough people are left afterwards
+  const canWithdraw = isDrawComplete && participants.length > minParticipants;
+
+  const currentRound = isDrawComplete && history.length > 0
+    ? history[history.length - 1]
+    : null;
+  const drawChanges = currentRound?.changes ?? [];
+  // Repeats the engine could not avoid in the current draw
+  const repeatedPairs = currentRound?.repeatedPairs ?? 0;
+  // Same-group pairs the engine could not avoid in "prefer" mode
+  const sameGroupPairs = isDrawComplete && settings.groupPolicy === 'prefer'
+    ? assignments.filter(a => {
+        const giver = participants.find(p => p.id === a.giverId);
+        const receiver = participants.find(p => p.id === a.receiverId);
+        return giver && receiver && isSameGroup(giver, receiver);
+      }).length
+    : 0;
+
   const handleAddParticipant = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -43,7 +101,17 @@ export const SetupScreen: React.FC = () => {
       return;
     }
     
-    addParticipant(trimmed);
+    if (isDrawComplete) {
+      // Late joiners are spliced into the finished draw
+      if (!addLateParticipant(trimmed, newGroup)) {
+        setError('Kurallar nedeniyle bu kişi kuraya eklenemedi');
+        return;
+      }
+      setReplayResult(null);
+      setNewGroup('');
+    } else {
+      addParticipant(trimmed);
+    }
     playSound('click', soundEnabled);
     triggerHaptic('light');
     setNewName('');
@@ -56,9 +124,22 @@ export const SetupScreen: React.FC = () => {
     triggerHaptic('light');
   };
 
+  const handleWithdraw = (id: string) => {
+    setPendingWithdrawId(null);
+    const change = withdrawParticipant(id);
+    if (change) {
+      setError('');
+      setReplayResult(null);
+      playSound('click', soundEnabled);
+      triggerHaptic('medium');
+    } else {
+      setError('Kurallar nedeniyle eşleşmeler bu kişi olmadan düzenlenemedi');
+    }
+  };
+
   const handleDraw = () => {
-    if (participants.length < 2) {
-      setError('En az 2 katılımcı gerekli');
+    if (participants.length < minParticipants) {
+      setError(`En az ${minParticipants} katılımcı gerekli`);
       return;
     }
     
@@ -66,33 +147,48 @@ export const SetupScreen: React.FC = () => {
     if (success) {
       playSound('success', soundEnabled);
       triggerHaptic('heavy');
-      // Generate share link after successful draw
-      const link = generateShareLink();
-      setShareLink(link);
-    } else {
+    } else if (!useSecretSantaStore.getState().drawDiagnostic) {
+      // Constraint problems are explained by the diagnostic panel instead
       setError('Kura çekilirken bir hata oluştu');
     }
   };
 
-  const handleCopyLink = async () => {
-    try {
-      await navigator.clipboard.writeText(shareLink);
-      setCopied(true);
+  const handleAssignPins = async () => {
+    setAssignedPins(await assignParticipantPins());
+    playSound('click', soundEnabled);
+  };
+
+  const handleClearPin = (id: string) => {
+    clearParticipantPin(id);
+    playSound('click', soundEnabled);
+  };
+
+  const handleVerify = () => {
+    setReplayResult(verifyDraw());
+    playSound('click', soundEnabled);
+  };
+
+  const handleNewRound = () => {
+    startNewRound();
+    playSound('click', soundEnabled);
+    setShowAdminReset(false);
+  };
+
+  const handleRenameEvent = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renameEvent(eventName)) {
+      setEventName('');
       playSound('click', soundEnabled);
-      setTimeout(() => setCopied(false), 2000);
-    } catch {
-      // Fallback for older browsers
-      const textArea = document.createElement('textarea');
-      textArea.value = shareLink;
-      document.body.appendChild(textArea);
-      textArea.select();
-      document.execCommand('copy');
-      document.body.removeChild(textArea);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
     }
   };
 
+  const handleDeleteEvent = () => {
+    deleteEvent();
+    playSound('click', soundEnabled);
+    setConfirmDeleteEvent(false);
+    setShowAdminReset(false);
+  };
+
   const handleReset = () => {
     resetAll();
     playSound('click', soundEnabled);
@@ -119,44 +215,59 @@ export const SetupScreen: React.FC = () => {
         Hediye alışverişi için katılımcıları ekleyin
       </p>
 
-      {!isDrawComplete && (
-        <form onSubmit={handleAddParticipant} className="add-form">
-          <div className="input-group">
+      <form onSubmit={handleAddParticipant} className="add-form">
+        <div className="input-group">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => {
+              setNewName(e.target.value);
+              setError('');
+            }}
+            placeholder={isDrawComplete ? 'Geç katılan adı...' : 'Katılımcı adı...'}
+            className="name-input"
+            maxLength={30}
+          />
+          {isDrawComplete && groups.length > 0 && (
             <input
               type="text"
-              value={newName}
-              onChange={(e) => {
-                setNewName(e.target.value);
-                setError('');
-              }}
-              placeholder="Katılımcı adı..."
-              className="name-input"
-              maxLength={30}
+              value={newGroup}
+              onChange={(e) => setNewGroup(e.target.value)}
+              placeholder="Ekip"
+              className="group-input"
+              list="participant-groups"
+              maxLength={MAX_GROUP_LENGTH}
             />
-            <motion.button
-              type="submit"
-              className="add-button"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
+          )}
+          <motion.button
+            type="submit"
+            className="add-button"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            ➕ Ekle
+          </motion.button>
+        </div>
+        {isDrawComplete && (
+          <p className="late-join-hint">
+            Kura çekildi: yeni kişi mevcut bir eşleşmenin arasına eklenir (A → Yeni → B),
+            yalnızca bir kişinin eşleşmesi değişir.
+          </p>
+        )}
+        
+        <AnimatePresence>
+          {error && (
+            <motion.p 
+              className="error-message"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
             >
-              ➕ Ekle
-            </motion.button>
-          </div>
-          
-          <AnimatePresence>
-            {error && (
-              <motion.p 
-                className="error-message"
-                initial={{ opacity: 0, height: 0 }}
-                animate={{ opacity: 1, height: 'auto' }}
-                exit={{ opacity: 0, height: 0 }}
-              >
-                {error}
-              </motion.p>
-            )}
-          </AnimatePresence>
-        </form>
-      )}
+              {error}
+            </motion.p>
+          )}
+        </AnimatePresence>
+      </form>
 
       <div className="participants-section">
         <h2 className="section-title">
@@ -177,6 +288,22 @@ export const SetupScreen: React.FC = () => {
               >
                 <span className="participant-icon">🎁</span>
                 <span className="participant-name">{participant.name}</span>
+                {!isDrawComplete ? (
+                  <input
+                    type="text"
+                    value={participant.group ?? ''}
+                    onChange={(e) => setParticipantGroup(participant.id, e.target.value)}
+                    placeholder="Ekip"
+                    className="group-input"
+                    list="participant-groups"
+                    maxLength={MAX_GROUP_LENGTH}
+                  />
+                ) : participant.group && (
+                  <span className="group-tag">{participant.group}</span>
+                )}
+                {participant.wishlist && (
+                  <span className="wishlist-tag" title={participant.wishlist}>📝</span>
+                )}
                 {!isDrawComplete && (
                   <motion.button
                     className="remove-button"
@@ -187,10 +314,50 @@ export const SetupScreen: React.FC = () => {
                     ✕
                   </motion.button>
                 )}
+                {isDrawComplete && pins[participant.id] && (
+                  <button
+                    className="withdraw-button"
+                    onClick={() => handleClearPin(participant.id)}
+                    title="PIN'i sıfırla"
+                  >
+                    🔓
+                  </button>
+                )}
+                {canWithdraw && pendingWithdrawId !== participant.id && (
+                  <button
+                    className="withdraw-button"
+                    onClick={() => setPendingWithdrawId(participant.id)}
+                    title="Kuradan ayrıldı"
+                  >
+                    🚪
+                  </button>
+                )}
+                {canWithdraw && pendingWithdrawId === participant.id && (
+                  <span className="withdraw-confirm">
+                    <button
+                      className="withdraw-button confirm"
+                      onClick={() => handleWithdraw(participant.id)}
+                    >
+                      Çıkar
+                    </button>
+                    <button
+                      className="withdraw-button"
+                      onClick={() => setPendingWithdrawId(null)}
+                    >
+                      Vazgeç
+                    </button>
+                  </span>
+                )}
               </motion.div>
             ))}
           </AnimatePresence>
           
+          <datalist id="participant-groups">
+            {groups.map(group => (
+              <option key={group} value={group} />
+            ))}
+          </datalist>
+
           {participants.length === 0 && (
             <p className="empty-message">
               Henüz katılımcı eklenmedi
@@ -199,15 +366,28 @@ export const SetupScreen: React.FC = () => {
         </div>
       </div>
 
+      {!isDrawComplete && <JoinPanel />}
+
+      {!isDrawComplete && participants.length >= 2 && (
+        <>
+          <DrawSettingsPanel />
+          <ConstraintsEditor />
+        </>
+      )}
+
+      {!isDrawComplete && drawDiagnostic && (
+        <DrawDiagnosticPanel diagnostic={drawDiagnostic} />
+      )}
+
       {!isDrawComplete && (
         <motion.button
           className="draw-button"
           onClick={handleDraw}
-          disabled={participants.length < 2}
-          whileHover={{ scale: participants.length >= 2 ? 1.05 : 1 }}
-          whileTap={{ scale: participants.length >= 2 ? 0.95 : 1 }}
+          disabled={!canDraw}
+          whileHover={{ scale: canDraw ? 1.05 : 1 }}
+          whileTap={{ scale: canDraw ? 0.95 : 1 }}
         >
-          🎲 Kurayı Çek ({participants.length}/2 minimum)
+          🎲 Kurayı Çek ({participants.length}/{minParticipants} minimum)
         </motion.button>
       )}
 
@@ -219,26 +399,83 @@ export const SetupScreen: React.FC = () => {
           animate={{ opacity: 1, y: 0 }}
         >
           <h3 className="share-title">🔗 Paylaşım Linki</h3>
-          <p className="share-description">
-            Bu linki katılımcılarla paylaşın. Herkes kendi cihazından girip kurasını görebilir!
-          </p>
-          <div className="share-link-container">
-            <input 
-              type="text" 
-              value={shareLink || generateShareLink()} 
-              readOnly 
-              className="share-link-input"
-              onClick={(e) => (e.target as HTMLInputElement).select()}
-            />
-            <motion.button
-              className="copy-button"
-              onClick={handleCopyLink}
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              {copied ? '✅ Kopyalandı!' : '📋 Kopyala'}
-            </motion.button>
+          <CommitmentBadge />
+          {repeatedPairs > 0 && (
+            <p className="repeat-warning">
+              ⚠️ {repeatedPairs} eşleşme geçmiş turlardan tekrarlandı (kısıtlamalar nedeniyle önlenemedi)
+            </p>
+          )}
+          {sameGroupPairs > 0 && (
+            <p className="repeat-warning">
+              ⚠️ {sameGroupPairs} eşleşme aynı ekip içinde kaldı (kısıtlamalar nedeniyle önlenemedi)
+            </p>
+          )}
+          {drawChanges.length > 0 && (
+            <ul className="draw-changes">
+              {drawChanges.map(change => (
+                <li key={change.at}>
+                  {change.kind === 'join'
+                    ? `🆕 ${change.participantName} katıldı`
+                    : `🚪 ${change.participantName} ayrıldı`}
+                  {change.affectedGiverNames.length > 0
+                    ? ` · ${change.affectedGiverNames.join(', ')} için eşleşme değişti`
+                    : ''}
+                  {change.revealedGiverNames.length > 0 && (
+                    <span className="repeat-warning">
+                      ⚠️ {change.revealedGiverNames.join(', ')} eski eşleşmesini görmüştü;
+                      yeni eşleşmesi için çarkı tekrar çevirmeli
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="pin-tools">
+            <button className="verify-button" onClick={handleAssignPins}>
+              🔢 PIN'i olmayanlara PIN oluştur
+            </button>
+            {assignedPins && (
+              Object.keys(assignedPins).length > 0 ? (
+                <>
+                  <p className="admin-hint">
+                    Bu PIN'ler yalnızca şimdi gösterilir; her birini sahibine iletin.
+                  </p>
+                  <ul className="assigned-pins">
+                    {participants
+                      .filter(p => assignedPins[p.id])
+                      .map(p => (
+                        <li key={p.id}>
+                          {p.name}: <code>{assignedPins[p.id]}</code>
+                        </li>
+                      ))}
+                  </ul>
+                  <button className="verify-button" onClick={() => setAssignedPins(null)}>
+                    Gizle
+                  </button>
+                </>
+              ) : (
+                <p className="admin-hint">Herkesin zaten bir PIN'i var.</p>
+              )
+            )}
           </div>
+          <ShareLinksPanel />
+          {currentRound?.seed && drawChanges.length === 0 && (
+            <div className="seed-record">
+              <span>
+                🎲 Tohum: <code>{currentRound.seed}</code> · algoritma v{currentRound.algorithmVersion}
+              </span>
+              <button className="verify-button" onClick={handleVerify}>
+                🔍 Doğrula
+              </button>
+              {replayResult !== null && (
+                <span className={replayResult ? 'verify-ok' : 'verify-fail'}>
+                  {replayResult
+                    ? '✅ Kura bu tohumla birebir yeniden üretildi'
+                    : '❌ Kura bu tohumla üretilmemiş'}
+                </span>
+              )}
+            </div>
+          )}
         </motion.div>
       )}
 
@@ -259,12 +496,74 @@ export const SetupScreen: React.FC = () => {
               animate={{ opacity: 1, height: 'auto' }}
               exit={{ opacity: 0, height: 0 }}
             >
+              <p className="admin-hint">
+                Organizatör modu {ORGANIZER_IDLE_TIMEOUT_MS / 60_000} dakika işlem yapılmazsa kendiliğinden kilitlenir.
+              </p>
+              <button className="new-round-button" onClick={lockOrganizer}>
+                🔒 Şimdi Kilitle
+              </button>
+              {isDrawComplete && (
+                <>
+                  <p className="admin-hint">
+                    Katılımcılar, kurallar ve geçmiş korunur; eşleşmeler silinir.
+                  </p>
+                  <button className="new-round-button" onClick={handleNewRound}>
+                    🔁 Yeni Tur
+                  </button>
+                </>
+              )}
+              {revealAudit.length > 0 && (
+                <div className="reveal-audit">
+                  <p className="admin-hint">Tekrar görüntüleme kaydı</p>
+                  <ul className="reveal-audit-list">
+                    {[...revealAudit].reverse().map(entry => (
+                      <li key={`${entry.participantId}-${entry.at}`}>
+                        <span>{entry.participantName}</span>
+                        <span>
+                          {new Date(entry.at).toLocaleString('tr-TR')}
+                          {' · '}
+                          {entry.method === 'pin' ? 'PIN' : 'kişisel bağlantı'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <form onSubmit={handleRenameEvent} className="event-rename-form">
+                <input
+                  type="text"
+                  value={eventName}
+                  onChange={(e) => setEventName(e.target.value)}
+                  placeholder={activeEvent?.name ?? 'Çekiliş adı'}
+                  className="group-input"
+                  maxLength={MAX_EVENT_NAME_LENGTH}
+                />
+                <button type="submit" className="new-round-button" disabled={!eventName.trim()}>
+                  ✏️ Yeniden Adlandır
+                </button>
+              </form>
+              <EventTransfer />
               <p className="admin-warning">
-                ⚠️ Bu işlem tüm verileri silecek!
+                ⚠️ Bu işlem bu çekilişin tüm verilerini silecek!
               </p>
               <button className="reset-button" onClick={handleReset}>
                 🗑️ Tümünü Sıfırla
               </button>
+              {events.length > 1 && !confirmDeleteEvent && (
+                <button className="reset-button" onClick={() => setConfirmDeleteEvent(true)}>
+                  ❌ Çekilişi Listeden Sil
+                </button>
+              )}
+              {confirmDeleteEvent && (
+                <span className="withdraw-confirm">
+                  <button className="withdraw-button confirm" onClick={handleDeleteEvent}>
+                    "{activeEvent?.name}" silinsin
+                  </button>
+                  <button className="withdraw-button" onClick={() => setConfirmDeleteEvent(false)}>
+                    Vazgeç
+                  </button>
+                </span>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -2,7 +2,7 @@
  * Spin Screen - Display the spinning wheel
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useSecretSantaStore } from '../../store/useSecretSantaStore';
 import { SpinningWheel } from '../../components/SpinningWheel/SpinningWheel';
@@ -12,17 +12,25 @@ export const SpinScreen: React.FC = () => {
   const { 
     participants,
     selectedParticipant,
-    getAssignmentFor,
+    getAssignmentsFor,
     markAsRevealed,
     soundEnabled,
   } = useSecretSantaStore();
 
-  // Get the assigned person for the selected participant
-  const assignedPerson = selectedParticipant 
-    ? getAssignmentFor(selectedParticipant.id) 
-    : null;
+  // One spin per gift; the wheel is remounted for each of them
+  const [spinIndex, setSpinIndex] = useState(0);
+
+  // Get the assigned people for the selected participant
+  const assignedPeople = selectedParticipant 
+    ? getAssignmentsFor(selectedParticipant.id) 
+    : [];
+  const assignedPerson = assignedPeople[spinIndex];
 
   const handleSpinComplete = () => {
+    if (spinIndex < assignedPeople.length - 1) {
+      setSpinIndex(index => index + 1);
+      return;
+    }
     if (selectedParticipant) {
       markAsRevealed(selectedParticipant.id);
     }
@@ -55,7 +63,19 @@ export const SpinScreen: React.FC = () => {
         Çarkı çevirin ve hediye alacağınız kişiyi öğrenin!
       </p>
 
+      {assignedPeople.length > 1 && (
+        <div className="spin-progress">
+          <span>🎁 Hediye {spinIndex + 1} / {assignedPeople.length}</span>
+          {spinIndex > 0 && (
+            <span className="spin-found">
+              Çıkanlar: {assignedPeople.slice(0, spinIndex).map(p => p.name).join(', ')}
+            </span>
+          )}
+        </div>
+      )}
+
       <SpinningWheel
+        key={spinIndex}
         participants={participants}
         targetParticipant={assignedPerson}
         onSpinComplete={handleSpinComplete}
@@ -1,12 +1,106 @@
 /**
  * Zustand store for Secret Santa state management
- * Handles all state with localStorage persistence
+ * Handles all state with persistence through the storage adapter
  */
 
 import { create } from 'zustand';
-import type { SecretSantaStore, Participant, AppState, ShareData } from '../types';
-import { generateDerangement, validateAssignments } from '../utils/derangement';
-import { saveState, loadState, clearState } from '../utils/storage';
+import type {
+  SecretSantaStore,
+  Participant,
+  AppState,
+  ShareData,
+  PersonalShareData,
+  DrawMode,
+  HistoryPolicy,
+  GroupPolicy,
+  DrawChange,
+  ReRevealMethod,
+  IntegrityStatus,
+  SharedSessionRecord,
+  JoinRequest,
+  EventSummary,
+  ParticipantImportRow,
+  ParticipantImportMode,
+} from '../types';
+import {
+  DRAW_ALGORITHM_VERSION,
+  drawAssignments,
+  replayDraw,
+  validateAssignments,
+} from '../utils/derangement';
+import { EMPTY_CONSTRAINTS, isValidConstraints, pruneConstraints } from '../utils/constraints';
+import { DEFAULT_DRAW_SETTINGS, MAX_AVOID_ROUNDS, normalizeDrawSettings } from '../utils/settings';
+import { amendRound, createRound } from '../utils/history';
+import { MAX_GROUP_LENGTH } from '../utils/groups';
+import { cryptoRandom, createSeededRandom } from '../utils/random';
+import { createCommitment, isValidCommitment, verifyCommittedPair } from '../utils/commitment';
+import { diagnoseDraw } from '../utils/diagnostics';
+import { joinDraw, withdrawFromDraw } from '../utils/reassignment';
+import {
+  generatePin,
+  getAttemptsLeft,
+  hashPin,
+  isValidPin,
+  recordFailedAttempt,
+  verifyPin,
+} from '../utils/pin';
+import { appendRevealAudit } from '../utils/revealAudit';
+import {
+  MIN_ORGANIZER_PASSWORD_LENGTH,
+  createOrganizerLock,
+  verifyOrganizerPassword,
+} from '../utils/organizer';
+import {
+  type IntegrityKeys,
+  type SignedState,
+  canonicalJson,
+  clearDeviceIntegrityKey,
+  createIntegrityKeys,
+  hasSignedChange,
+  loadDeviceIntegrityKey,
+  pickSignedState,
+  saveDeviceIntegrityKey,
+  signState,
+  unwrapIntegrityKeys,
+  verifyStateSignature,
+} from '../utils/integrity';
+import {
+  saveIntegrityRecord,
+  loadIntegrityRecord,
+  hasIntegrityRecord,
+  clearIntegrityRecord,
+  saveSharedSession,
+  loadSharedSession,
+  loadActiveSharedSession,
+  clearActiveSharedSession,
+  loadSoundEnabled,
+  saveSoundEnabled,
+  saveEventList,
+  loadEventList,
+  saveActiveEventId,
+  loadActiveEventId,
+  DEFAULT_EVENT_ID,
+  DEFAULT_EVENT_NAME,
+  MAX_EVENT_NAME_LENGTH,
+} from '../utils/storage';
+import { getStorageAdapter } from '../utils/stateStorage';
+import type { StoredEventState } from '../utils/stateSchema';
+import { applyParticipantImport, createEventFile, parseEventFile } from '../utils/eventFile';
+import {
+  type TabChannel,
+  type TabSyncMessage,
+  TAB_ID,
+  createTabChannel,
+  getSyncFingerprint,
+  mergeTabState,
+} from '../utils/tabSync';
+import { getRevealRoom, getRevealSyncAdapter } from '../utils/revealSync';
+import { createJoinCode } from '../utils/join';
+import {
+  decodeSharePayload,
+  encodePersonalShareData,
+  encodeShareData,
+} from '../utils/shareCodec';
 
 /**
  * Generate a unique ID for participants
@@ -16,137 +110,1495 @@ function generateId(): string {
 }
 
 /**
- * Get initial state, hydrating from localStorage if available
+ * Copy of a record without one key
  */
-function getInitialState(): Omit<AppState, 'currentScreen' | 'selectedParticipant'> {
-  const stored = loadState();
-  
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+}
+
+/**
+ * Current page without its query, the base of every share link
+ */
+function getShareBaseUrl(): string {
+  return window.location.origin + window.location.pathname;
+}
+
+// Keys signing the open event's organizer data, once the organizer
+// password opened them this session
+let integrity: { eventId: string; keys: IntegrityKeys } | null = null;
+
+// Channel to the app's other tabs while connected, and when this tab last
+// changed what it shows itself (see tabSync.ts)
+let tabChannel: TabChannel | null = null;
+let lastLocalChange: { scope: string; at: number } | null = null;
+// Messages to other tabs, in the order they were sent; each waits for its
+// signature and for the key the other tabs check it with
+let tabPosts: Promise<void> = Promise.resolve();
+
+// An event's own data: everything but the event list and what is never
+// stored
+type EventState = Omit<
+  AppState,
+  'currentScreen' | 'selectedParticipant' | 'drawDiagnostic' | 'isOrganizerUnlocked' |
+  'events' | 'activeEventId' | 'isLoading' | 'tabSyncConflict'
+>;
+
+/**
+ * Signs the organizer-controlled state and stores the signature
+ */
+async function signStoredState(state: SignedState & Pick<AppState, 'activeEventId'>): Promise<void> {
+  if (!integrity || integrity.eventId !== state.activeEventId) return;
+  const { eventId, keys } = integrity;
+
+  try {
+    const signature = await signState(keys.privateKey, state);
+    // Changed again (or another event opened) while signing; the newer
+    // state gets its own signature
+    const current = useSecretSantaStore.getState();
+    if (current.activeEventId !== eventId || hasSignedChange(current, state)) return;
+    saveIntegrityRecord(eventId, { ...keys.wrapped, signature });
+  } catch (error) {
+    console.error('Failed to sign state:', error);
+  }
+}
+
+/**
+ * The part of an event's state that is stored
+ */
+function toStoredEventState(state: EventState): StoredEventState {
+  return {
+    participants: state.participants,
+    assignments: state.assignments,
+    constraints: state.constraints,
+    settings: state.settings,
+    history: state.history,
+    commitment: state.commitment,
+    commitmentSalts: state.commitmentSalts,
+    // Only salted hashes are stored, never the PINs themselves
+    pins: state.pins,
+    pinAttempts: state.pinAttempts,
+    revealedParticipants: [...state.revealedParticipants],
+    revealAudit: state.revealAudit,
+    organizerLock: state.organizerLock,
+    joinCode: state.joinCode,
+    handledJoinNames: state.handledJoinNames,
+    isDrawComplete: state.isDrawComplete,
+  };
+}
+
+/**
+ * What another tab must be showing to share this tab's saves; null for a
+ * shared session that isn't saved
+ */
+function getSyncScope(
+  state: Pick<SecretSantaStore, 'activeEventId' | 'isSharedSession' | 'sharedSessionId'>
+): string | null {
+  if (!state.isSharedSession) return `event:${state.activeEventId}`;
+  return state.sharedSessionId ? `shared:${state.sharedSessionId}` : null;
+}
+
+/**
+ * Tells the app's other tabs about a change saved here. Runs inside set,
+ * so the store still holds the state the change was made on.
+ */
+function announceState(state: Parameters<typeof persistState>[0]): void {
+  const scope = getSyncScope(state);
+  if (!tabChannel || !scope) return;
+
+  const previous = useSecretSantaStore.getState();
+  const base = getSyncFingerprint(previous);
+  const stored = toStoredEventState(state);
+  // Nothing other tabs share changed (the sound setting is the device's)
+  if (base === getSyncFingerprint(stored) &&
+      previous.revealedParticipants === state.revealedParticipants &&
+      previous.revealAudit === state.revealAudit) {
+    return;
+  }
+
+  const sentAt = Date.now();
+  lastLocalChange = { scope, at: sentAt };
+  // Signed whenever this tab may sign, so the other tabs can tell the
+  // organizer's changes from a forged message
+  const keys = !state.isSharedSession && state.integrityStatus === 'ok' &&
+    integrity?.eventId === state.activeEventId ? integrity.keys : null;
+  tabPosts = tabPosts.then(async () => {
+    let signature: string | null = null;
+    try {
+      signature = keys && await signState(keys.privateKey, stored);
+    } catch (error) {
+      console.error('Failed to sign state for other tabs:', error);
+    }
+    tabChannel?.post({ tabId: TAB_ID, scope, sentAt, base, state: stored, signature });
+  });
+}
+
+/**
+ * Keeps an event's public key on this device. Messages to other tabs wait
+ * for it, as they check the signed ones with it.
+ */
+function keepDeviceIntegrityKey(eventId: string, publicKey: CryptoKey): void {
+  const saved = saveDeviceIntegrityKey(eventId, publicKey);
+  tabPosts = tabPosts.then(() => saved);
+}
+
+/**
+ * Whether another tab's message holds the organizer's data as signed with
+ * the event's key
+ */
+async function isTabMessageSigned(message: TabSyncMessage, eventId: string): Promise<boolean> {
+  if (!message.signature) return false;
+  const publicKey = integrity?.eventId === eventId
+    ? integrity.keys.publicKey
+    : await loadDeviceIntegrityKey(eventId);
+  return publicKey !== null && await verifyStateSignature(publicKey, message.state, message.signature);
+}
+
+/**
+ * Saves the state where it belongs: a shared session under its own key,
+ * anything else as the open event. A shared session never overwrites the
+ * device's own events, and an event still loading is never saved over.
+ * Other tabs are told, unless the change came from one of them.
+ */
+function persistState(
+  state: EventState & Pick<
+    SecretSantaStore,
+    'activeEventId' | 'isLoading' | 'isSharedSession' | 'personalParticipantId' |
+    'sharedSessionId' | 'sharedSessionRoom'
+  >,
+  announce = true
+): void {
+  saveSoundEnabled(state.soundEnabled);
+  if (state.isLoading) {
+    return;
+  }
+  if (announce) {
+    announceState(state);
+  }
+  if (!state.isSharedSession) {
+    void getStorageAdapter().saveState(state.activeEventId, toStoredEventState(state));
+    return;
+  }
+  if (!state.sharedSessionId || !state.sharedSessionRoom) {
+    return;
+  }
+
+  saveSharedSession({
+    id: state.sharedSessionId,
+    room: state.sharedSessionRoom,
+    personalParticipantId: state.personalParticipantId,
+    participants: state.participants,
+    assignments: state.assignments,
+    constraints: state.constraints,
+    settings: state.settings,
+    commitment: state.commitment,
+    commitmentSalts: state.commitmentSalts,
+    pins: state.pins,
+    pinAttempts: state.pinAttempts,
+    revealedParticipants: [...state.revealedParticipants],
+    revealAudit: state.revealAudit,
+  });
+}
+
+/**
+ * State of a saved shared session
+ */
+function getSharedSessionState(
+  record: SharedSessionRecord,
+  soundEnabled: boolean
+): EventState {
+  return {
+    participants: record.participants,
+    assignments: record.assignments,
+    constraints: record.constraints,
+    settings: record.settings,
+    history: [],
+    commitment: record.commitment,
+    commitmentSalts: record.commitmentSalts,
+    pins: record.pins,
+    pinAttempts: record.pinAttempts,
+    revealedParticipants: new Set(record.revealedParticipants),
+    revealAudit: record.revealAudit,
+    organizerLock: null,
+    // Share links are checked on their own (commitment, encryption)
+    integrityStatus: 'ok',
+    joinCode: null,
+    handledJoinNames: [],
+    isDrawComplete: true,
+    soundEnabled,
+  };
+}
+
+/**
+ * State of an event with nothing in it yet
+ */
+function getEmptyEventState(soundEnabled: boolean): EventState {
+  return {
+    participants: [],
+    assignments: [],
+    constraints: EMPTY_CONSTRAINTS,
+    settings: DEFAULT_DRAW_SETTINGS,
+    history: [],
+    commitment: null,
+    commitmentSalts: {},
+    pins: {},
+    pinAttempts: {},
+    revealedParticipants: new Set(),
+    revealAudit: [],
+    organizerLock: null,
+    integrityStatus: 'ok',
+    joinCode: null,
+    handledJoinNames: [],
+    isDrawComplete: false,
+    soundEnabled,
+  };
+}
+
+/**
+ * Read an event's state from storage; an empty one if nothing is stored
+ */
+async function loadEventState(eventId: string): Promise<EventState> {
+  const stored = await getStorageAdapter().loadState(eventId);
+  const soundEnabled = loadSoundEnabled();
+
   if (stored) {
+    // Events with an organizer password are signed; checkIntegrity verifies.
+    // A signature (or key) without a password means the lock was removed.
+    const isSigned = hasIntegrityRecord(eventId) ||
+      await loadDeviceIntegrityKey(eventId) !== null;
+    let integrityStatus: IntegrityStatus = stored.organizerLock
+      ? 'checking'
+      : isSigned ? 'tampered' : 'ok';
+
     // Validate stored assignments if draw was complete
     if (stored.isDrawComplete && stored.assignments.length > 0) {
-      const isValid = validateAssignments(stored.participants, stored.assignments);
-      if (!isValid) {
+      const isValid = validateAssignments(
+        stored.participants,
+        stored.assignments,
+        stored.constraints,
+        stored.settings
+      );
+      if (!isValid && integrityStatus !== 'ok') {
+        // The organizer never saved this; keep it for them to look at
+        console.warn('Invalid stored assignments in a signed event');
+        integrityStatus = 'tampered';
+      } else if (!isValid) {
         console.warn('Invalid stored assignments, resetting...');
-        clearState();
-        return {
-          participants: [],
-          assignments: [],
-          revealedParticipants: new Set(),
-          isDrawComplete: false,
-          soundEnabled: true,
-        };
+        void getStorageAdapter().clearState(eventId);
+        clearIntegrityRecord(eventId);
+        return { ...getEmptyEventState(soundEnabled), history: stored.history };
       }
     }
     
     return {
       participants: stored.participants,
       assignments: stored.assignments,
+      constraints: stored.constraints,
+      settings: stored.settings,
+      history: stored.history,
+      commitment: stored.commitment,
+      commitmentSalts: stored.commitmentSalts,
+      pins: stored.pins,
+      pinAttempts: stored.pinAttempts,
       revealedParticipants: new Set(stored.revealedParticipants),
+      revealAudit: stored.revealAudit,
+      organizerLock: stored.organizerLock,
+      integrityStatus,
+      joinCode: stored.joinCode,
+      handledJoinNames: stored.handledJoinNames,
       isDrawComplete: stored.isDrawComplete,
-      soundEnabled: stored.soundEnabled,
+      soundEnabled,
     };
   }
+
+  return getEmptyEventState(soundEnabled);
+}
+
+export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
+  const events = loadEventList();
+  const activeEventId = loadActiveEventId(events);
+
+  // A shared session open when the page was left comes back after a reload;
+  // the device's own event is read by hydrate
+  const sharedSession = loadActiveSharedSession();
+  const initial = sharedSession
+    ? getSharedSessionState(sharedSession, loadSoundEnabled())
+    : getEmptyEventState(loadSoundEnabled());
+
+  // Open a shared session, restoring this device's progress in it when the
+  // same link was opened before
+  const openSharedSession = async (
+    record: Omit<SharedSessionRecord, 'id' | 'room' | 'pins' | 'pinAttempts' | 'revealedParticipants' | 'revealAudit'>
+  ) => {
+    const room = await getRevealRoom(record.participants, record.commitment);
+    const id = record.personalParticipantId ? `${room}-${record.personalParticipantId}` : room;
+    const saved = loadSharedSession(id);
+    const isSameDraw = saved !== null &&
+      JSON.stringify(saved.assignments) === JSON.stringify(record.assignments);
+
+    const session: SharedSessionRecord = {
+      ...record,
+      id,
+      room,
+      pins: isSameDraw ? saved.pins : {},
+      pinAttempts: isSameDraw ? saved.pinAttempts : {},
+      revealedParticipants: isSameDraw ? saved.revealedParticipants : [],
+      revealAudit: isSameDraw ? saved.revealAudit : [],
+    };
+    saveSharedSession(session);
+
+    // A personal link goes straight to its giver's spin, unless it's done
+    const giver = session.participants.find(p => p.id === session.personalParticipantId);
+    const isGiverPending = giver !== undefined &&
+      !session.revealedParticipants.includes(giver.id);
+
+    set({
+      ...getSharedSessionState(session, get().soundEnabled),
+      currentScreen: isGiverPending ? 'spin' : 'select',
+      selectedParticipant: isGiverPending ? giver : null,
+      isOrganizerUnlocked: false,
+      isLoading: false,
+      isSharedSession: true,
+      personalParticipantId: session.personalParticipantId,
+      sharedSessionId: session.id,
+      sharedSessionRoom: session.room,
+    });
+  };
+
+  // Show one of the device's events, checking its signature as on load.
+  // Nothing is saved until it has been read.
+  const openEvent = async (eventId: string) => {
+    integrity = null;
+    lastLocalChange = null;
+    saveActiveEventId(eventId);
+    set({
+      ...getEmptyEventState(get().soundEnabled),
+      activeEventId: eventId,
+      isLoading: true,
+      currentScreen: 'setup',
+      selectedParticipant: null,
+      drawDiagnostic: null,
+      isOrganizerUnlocked: false,
+      tabSyncConflict: null,
+    });
+
+    const state = await loadEventState(eventId);
+    // Another event or a share link was opened while reading
+    const current = get();
+    if (current.activeEventId !== eventId || current.isSharedSession || !current.isLoading) {
+      return;
+    }
+    set({
+      ...state,
+      isLoading: false,
+      currentScreen: state.isDrawComplete ? 'select' : 'setup',
+    });
+    void get().checkIntegrity();
+  };
+
+  // Forget the open event's data entirely, signature key included
+  const clearEverything = () => {
+    const { activeEventId } = get();
+    void getStorageAdapter().clearState(activeEventId);
+    clearIntegrityRecord(activeEventId);
+    integrity = null;
+    void clearDeviceIntegrityKey(activeEventId);
+    set({
+      ...getEmptyEventState(get().soundEnabled),
+      isOrganizerUnlocked: false,
+      currentScreen: 'setup',
+      selectedParticipant: null,
+      drawDiagnostic: null,
+    });
+  };
+
+  // Hash the current draw and publish the commitment (runs in background)
+  const commitCurrentDraw = async () => {
+    const { participants, assignments } = get();
+    try {
+      const { commitment, salts } = await createCommitment(participants, assignments);
+      // The draw changed while hashing; that draw gets its own commitment
+      if (get().assignments !== assignments) return;
+
+      set(state => {
+        const newState = { commitment, commitmentSalts: salts };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    } catch (error) {
+      console.error('Failed to commit to the draw:', error);
+    }
+  };
   
   return {
-    participants: [],
-    assignments: [],
-    revealedParticipants: new Set(),
-    isDrawComplete: false,
-    soundEnabled: true,
-  };
-}
+    // Initial state
+    events,
+    activeEventId,
+    isLoading: sharedSession === null,
+    tabSyncConflict: null,
+    ...initial,
+    currentScreen: initial.isDrawComplete ? 'select' : 'setup',
+    selectedParticipant: null,
+    drawDiagnostic: null,
+    isOrganizerUnlocked: false,
+
+    // Add a new participant
+    addParticipant: (name: string) => {
+      const trimmedName = name.trim();
+      if (!trimmedName || !get().isOrganizerUnlocked) return;
+      
+      // Check for duplicate names
+      const exists = get().participants.some(
+        p => p.name.toLowerCase() === trimmedName.toLowerCase()
+      );
+      if (exists) return;
+
+      const newParticipant: Participant = {
+        id: generateId(),
+        name: trimmedName,
+      };
+
+      set(state => {
+        const newState = {
+          participants: [...state.participants, newParticipant],
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Remove a participant (only before draw)
+    removeParticipant: (id: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+      
+      set(state => {
+        const participants = state.participants.filter(p => p.id !== id);
+        const newState = {
+          participants,
+          constraints: pruneConstraints(state.constraints, participants),
+          pins: omitKey(state.pins, id),
+          pinAttempts: omitKey(state.pinAttempts, id),
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Perform the Secret Santa draw
+    performDraw: () => {
+      const state = get();
+      
+      if (!state.isOrganizerUnlocked) {
+        return false;
+      }
+
+      // Don't allow redraw
+      if (state.isDrawComplete) {
+        console.warn('Draw already completed');
+        return false;
+      }
+
+      // Need at least 2 participants (and more than k for k gifts each)
+      const minimum = Math.max(2, state.settings.giftsPerPerson + 1);
+      if (state.participants.length < minimum) {
+        console.warn(`Need at least ${minimum} participants`);
+        return false;
+      }
+
+      // Generate derangement (or a single chain)
+      const seed = state.settings.seed;
+      const outcome = drawAssignments(
+        state.participants,
+        state.constraints,
+        state.settings,
+        state.history,
+        seed ? createSeededRandom(seed) : cryptoRandom
+      );
+      
+      if (!outcome) {
+        console.error('Failed to generate valid assignments');
+        set({
+          drawDiagnostic: diagnoseDraw(
+            state.participants,
+            state.constraints,
+            state.settings,
+            state.history
+          ),
+        });
+        return false;
+      }
+
+      const round = createRound(
+        generateId(),
+        state.participants,
+        outcome.assignments,
+        outcome.repeatedPairs,
+        {
+          algorithmVersion: DRAW_ALGORITHM_VERSION,
+          ...(seed ? { seed } : {}),
+        }
+      );
+
+      set(state => {
+        const newState = {
+          assignments: outcome.assignments,
+          history: [...state.history, round],
+          commitment: null,
+          commitmentSalts: {},
+          isDrawComplete: true,
+          drawDiagnostic: null,
+          currentScreen: 'select' as const,
+          // The device goes round the participants now
+          isOrganizerUnlocked: false,
+          // Late joiners go through addLateParticipant
+          joinCode: null,
+          handledJoinNames: [],
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+
+      void commitCurrentDraw();
+      return true;
+    },
+
+    // Add a "cannot give to" rule (only before draw)
+    addExclusion: (giverId: string, receiverId: string, mutual: boolean) => {
+      const state = get();
+      if (state.isDrawComplete || !state.isOrganizerUnlocked || giverId === receiverId) return;
+
+      // Skip rules that are already covered
+      const exists = state.constraints.exclusions.some(rule =>
+        (rule.giverId === giverId && rule.receiverId === receiverId) ||
+        (rule.mutual && rule.giverId === receiverId && rule.receiverId === giverId)
+      );
+      if (exists) return;
+
+      set(state => {
+        const newState = {
+          constraints: {
+            ...state.constraints,
+            exclusions: [
+              ...state.constraints.exclusions,
+              { id: generateId(), giverId, receiverId, mutual },
+            ],
+          },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Remove a "cannot give to" rule (only before draw)
+    removeExclusion: (id: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          constraints: {
+            ...state.constraints,
+            exclusions: state.constraints.exclusions.filter(rule => rule.id !== id),
+          },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Create an empty named household (only before draw)
+    addHousehold: (name: string) => {
+      const trimmedName = name.trim();
+      if (!trimmedName || get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          constraints: {
+            ...state.constraints,
+            households: [
+              ...state.constraints.households,
+              { id: generateId(), name: trimmedName, memberIds: [] },
+            ],
+          },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Remove a household (only before draw)
+    removeHousehold: (id: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          constraints: {
+            ...state.constraints,
+            households: state.constraints.households.filter(h => h.id !== id),
+          },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Add or remove a participant from a household (only before draw)
+    toggleHouseholdMember: (householdId: string, participantId: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          constraints: {
+            ...state.constraints,
+            households: state.constraints.households.map(household => {
+              if (household.id !== householdId) return household;
+              const memberIds = household.memberIds.includes(participantId)
+                ? household.memberIds.filter(id => id !== participantId)
+                : [...household.memberIds, participantId];
+              return { ...household, memberIds };
+            }),
+          },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Choose between a free derangement and a single chain (only before draw)
+    setDrawMode: (mode: DrawMode) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          // Chain mode falls back to standard with several gifts per person
+          settings: normalizeDrawSettings({ ...state.settings, mode }),
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Configure how many past rounds to avoid repeating (only before draw)
+    setHistoryAvoidance: (rounds: number, policy: HistoryPolicy) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      const avoidRecentRounds = Math.min(Math.max(Math.floor(rounds), 0), MAX_AVOID_ROUNDS);
+
+      set(state => {
+        const newState = {
+          settings: { ...state.settings, avoidRecentRounds, historyPolicy: policy },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Set how many gifts each person buys (only before draw)
+    setGiftsPerPerson: (count: number) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          settings: normalizeDrawSettings({ ...state.settings, giftsPerPerson: count }),
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Put a participant in a team or department ('' = no group, only before draw)
+    setParticipantGroup: (id: string, group: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      // Kept as typed so spaces can be entered; comparisons trim it
+      const newGroup = group.trim() ? group.slice(0, MAX_GROUP_LENGTH) : undefined;
+
+      set(state => {
+        const newState = {
+          participants: state.participants.map(p =>
+            p.id === id ? { ...p, group: newGroup } : p
+          ),
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Choose whether gifts must cross groups (only before draw)
+    setGroupPolicy: (policy: GroupPolicy) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          settings: { ...state.settings, groupPolicy: policy },
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Set the seed for a reproducible draw ('' = secure random)
+    setDrawSeed: (seed: string) => {
+      if (get().isDrawComplete || !get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          settings: normalizeDrawSettings({ ...state.settings, seed }),
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Replay the current seeded draw; null if it cannot be replayed
+    verifyDraw: () => {
+      const state = get();
+      const round = state.history[state.history.length - 1];
+
+      // Changes after the draw (dropouts, late joiners) can't be replayed from the seed
+      if (!state.isDrawComplete || !round?.seed || round.changes?.length ||
+          round.algorithmVersion !== DRAW_ALGORITHM_VERSION) {
+        return null;
+      }
+
+      return replayDraw(
+        state.participants,
+        state.constraints,
+        state.settings,
+        state.history.slice(0, -1),
+        round.seed,
+        state.assignments
+      );
+    },
+
+    // Check the participant's pair against the published commitment;
+    // null when there is nothing to check against
+    verifyCommittedAssignment: async (participantId: string) => {
+      const state = get();
+      const salt = state.commitmentSalts[participantId];
+      const giver = state.participants.find(p => p.id === participantId);
+      const receivers = state.getAssignmentsFor(participantId);
+
+      if (!state.commitment || !salt || !giver || receivers.length === 0) {
+        return null;
+      }
+
+      try {
+        const results = await Promise.all(receivers.map(receiver =>
+          verifyCommittedPair(state.commitment!, giver.name, receiver.name, salt)
+        ));
+        return results.every(Boolean);
+      } catch (error) {
+        console.error('Failed to verify commitment:', error);
+        return null;
+      }
+    },
+
+    // Take someone out of a finished draw, changing only the pairs they were in
+    withdrawParticipant: (id: string) => {
+      const state = get();
+      const leaver = state.participants.find(p => p.id === id);
+      if (!state.isDrawComplete || !state.isOrganizerUnlocked || !leaver) return null;
+
+      const outcome = withdrawFromDraw(
+        state.participants,
+        state.assignments,
+        id,
+        state.constraints,
+        state.settings
+      );
+      if (!outcome || !validateAssignments(
+        outcome.participants,
+        outcome.assignments,
+        pruneConstraints(state.constraints, outcome.participants),
+        state.settings
+      )) {
+        console.error('Failed to reassign the draw without', leaver.name);
+        return null;
+      }
+
+      const nameOf = (participantId: string) =>
+        state.participants.find(p => p.id === participantId)?.name ?? '';
+      const change: DrawChange = {
+        kind: 'withdraw',
+        at: new Date().toISOString(),
+        participantName: leaver.name,
+        affectedGiverNames: outcome.affectedGiverIds.map(nameOf),
+        revealedGiverNames: outcome.affectedGiverIds
+          .filter(giverId => state.revealedParticipants.has(giverId))
+          .map(nameOf),
+      };
+
+      // Affected givers get to spin again for their new match
+      const revealedParticipants = new Set(
+        [...state.revealedParticipants].filter(revealedId =>
+          revealedId !== id && !outcome.affectedGiverIds.includes(revealedId)
+        )
+      );
+      const lastRound = state.history[state.history.length - 1];
+
+      set(state => {
+        const newState = {
+          participants: outcome.participants,
+          assignments: outcome.assignments,
+          constraints: pruneConstraints(state.constraints, outcome.participants),
+          history: lastRound
+            ? [
+                ...state.history.slice(0, -1),
+                amendRound(lastRound, state.participants, outcome.assignments, change),
+              ]
+            : state.history,
+          commitment: null,
+          commitmentSalts: {},
+          pins: omitKey(state.pins, id),
+          pinAttempts: omitKey(state.pinAttempts, id),
+          revealedParticipants,
+          selectedParticipant: state.selectedParticipant?.id === id
+            ? null
+            : state.selectedParticipant,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+
+      void commitCurrentDraw();
+      return change;
+    },
+
+    // Add someone to a finished draw by splicing them into existing pairs
+    addLateParticipant: (name: string, group?: string) => {
+      const state = get();
+      const trimmedName = name.trim();
+      if (!state.isDrawComplete || !state.isOrganizerUnlocked || !trimmedName) return null;
+
+      const exists = state.participants.some(
+        p => p.name.toLowerCase() === trimmedName.toLowerCase()
+      );
+      if (exists) return null;
+
+      const newcomer: Participant = {
+        id: generateId(),
+        name: trimmedName,
+        ...(group?.trim() ? { group: group.slice(0, MAX_GROUP_LENGTH) } : {}),
+      };
+
+      const outcome = joinDraw(
+        state.participants,
+        state.assignments,
+        newcomer,
+        state.constraints,
+        state.settings,
+        state.revealedParticipants
+      );
+      if (!outcome || !validateAssignments(
+        outcome.participants,
+        outcome.assignments,
+        state.constraints,
+        state.settings
+      )) {
+        console.error('Failed to add', trimmedName, 'to the draw');
+        return null;
+      }
+
+      const nameOf = (participantId: string) =>
+        state.participants.find(p => p.id === participantId)?.name ?? '';
+      const change: DrawChange = {
+        kind: 'join',
+        at: new Date().toISOString(),
+        participantName: trimmedName,
+        affectedGiverNames: outcome.affectedGiverIds.map(nameOf),
+        revealedGiverNames: outcome.affectedGiverIds
+          .filter(giverId => state.revealedParticipants.has(giverId))
+          .map(nameOf),
+      };
+
+      // Affected givers get to spin again for their new match
+      const revealedParticipants = new Set(
+        [...state.revealedParticipants].filter(revealedId =>
+          !outcome.affectedGiverIds.includes(revealedId)
+        )
+      );
+      const lastRound = state.history[state.history.length - 1];
+
+      set(state => {
+        const newState = {
+          participants: outcome.participants,
+          assignments: outcome.assignments,
+          history: lastRound
+            ? [
+                ...state.history.slice(0, -1),
+                amendRound(lastRound, outcome.participants, outcome.assignments, change),
+              ]
+            : state.history,
+          commitment: null,
+          commitmentSalts: {},
+          revealedParticipants,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+
+      void commitCurrentDraw();
+      return change;
+    },
+
+    // Start next year's round: keep people, rules and history, drop the draw
+    startNewRound: () => {
+      if (!get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          assignments: [],
+          commitment: null,
+          commitmentSalts: {},
+          // Reusing last year's seed could repeat last year's draw
+          settings: { ...state.settings, seed: '' },
+          revealedParticipants: new Set<string>(),
+          isDrawComplete: false,
+          currentScreen: 'setup' as const,
+          selectedParticipant: null,
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Open self-registration with a fresh join code (only before draw)
+    openRegistration: () => {
+      const state = get();
+      if (state.isDrawComplete || state.isSharedSession || !state.isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = { joinCode: createJoinCode(), handledJoinNames: [] };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Close self-registration; the old code stops working
+    closeRegistration: () => {
+      if (!get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = { joinCode: null, handledJoinNames: [] };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+    },
+
+    // Add people who registered themselves with the current join code
+    addJoinRequests: (requests: JoinRequest[]) => {
+      const state = get();
+      const result = { added: [] as string[], skipped: [] as string[] };
+      if (!state.joinCode || state.isDrawComplete || !state.isOrganizerUnlocked) {
+        return result;
+      }
+
+      const taken = new Set(state.participants.map(p => p.name.toLowerCase()));
+      const newParticipants: Participant[] = [];
+      for (const request of requests) {
+        // Tokens for an old code, or for another event
+        if (request.code !== state.joinCode) continue;
+
+        if (taken.has(request.name.toLowerCase())) {
+          result.skipped.push(request.name);
+          continue;
+        }
+        taken.add(request.name.toLowerCase());
+        result.added.push(request.name);
+        newParticipants.push({
+          id: generateId(),
+          name: request.name,
+          ...(request.wishlist ? { wishlist: request.wishlist } : {}),
+        });
+      }
+      // Remembered with the event, so they are never offered again
+      const handled = [...result.added, ...result.skipped]
+        .map(name => name.toLowerCase())
+        .filter(name => !state.handledJoinNames.includes(name));
+      if (newParticipants.length === 0 && handled.length === 0) return result;
+
+      set(state => {
+        const newState = {
+          participants: newParticipants.length > 0
+            ? [...state.participants, ...newParticipants]
+            : state.participants,
+          handledJoinNames: [...state.handledJoinNames, ...handled],
+          drawDiagnostic: null,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+      return result;
+    },
 
-export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
-  const initial = getInitialState();
-  
-  return {
-    // Initial state
-    ...initial,
-    currentScreen: initial.isDrawComplete ? 'select' : 'setup',
-    selectedParticipant: null,
+    // The whole open event as a JSON file (admin only)
+    exportEventFile: () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked || state.isSharedSession) return null;
 
-    // Add a new participant
-    addParticipant: (name: string) => {
-      const trimmedName = name.trim();
-      if (!trimmedName) return;
-      
-      // Check for duplicate names
-      const exists = get().participants.some(
-        p => p.name.toLowerCase() === trimmedName.toLowerCase()
-      );
-      if (exists) return;
+      const event = state.events.find(e => e.id === state.activeEventId);
+      return createEventFile(event?.name ?? DEFAULT_EVENT_NAME, toStoredEventState(state));
+    },
 
-      const newParticipant: Participant = {
-        id: generateId(),
-        name: trimmedName,
-      };
+    // Replace the open event with one from a file (admin only). The event
+    // keeps its own password and is signed again with it.
+    importEventFile: (text: string) => {
+      const state = get();
+      const file = parseEventFile(text);
+      if (!file || !state.isOrganizerUnlocked || state.isSharedSession) return false;
+
+      const imported = file.state;
+      if (imported.isDrawComplete && !validateAssignments(
+        imported.participants,
+        imported.assignments,
+        imported.constraints,
+        imported.settings
+      )) {
+        console.warn('Imported event has an invalid draw');
+        return false;
+      }
 
       set(state => {
         const newState = {
-          participants: [...state.participants, newParticipant],
+          ...imported,
+          revealedParticipants: new Set(imported.revealedParticipants),
+          organizerLock: state.organizerLock,
+          joinCode: null,
+          handledJoinNames: [],
+          selectedParticipant: null,
+          drawDiagnostic: null,
         };
-        saveState({
+        persistState({
           ...state,
           ...newState,
         });
         return newState;
       });
+      return true;
     },
 
-    // Remove a participant (only before draw)
-    removeParticipant: (id: string) => {
-      if (get().isDrawComplete) return;
-      
+    // Add participants from a file, or replace the list with it (admin
+    // only, before the draw)
+    importParticipants: (rows: ParticipantImportRow[], mode: ParticipantImportMode) => {
+      const state = get();
+      if (state.isDrawComplete || !state.isOrganizerUnlocked) return null;
+
+      const { participants, preview } = applyParticipantImport(
+        state.participants,
+        rows,
+        mode,
+        generateId
+      );
+      const kept = new Set(participants.map(p => p.id));
+      const dropped = state.participants.filter(p => !kept.has(p.id)).map(p => p.id);
+
       set(state => {
         const newState = {
-          participants: state.participants.filter(p => p.id !== id),
+          participants,
+          constraints: pruneConstraints(state.constraints, participants),
+          pins: dropped.reduce(omitKey, state.pins),
+          pinAttempts: dropped.reduce(omitKey, state.pinAttempts),
+          drawDiagnostic: null,
         };
-        saveState({
+        persistState({
           ...state,
           ...newState,
         });
         return newState;
       });
+      return preview;
     },
 
-    // Perform the Secret Santa draw
-    performDraw: () => {
+    // Set a participant's own PIN (only while they don't have one)
+    setParticipantPin: async (id: string, pin: string) => {
       const state = get();
-      
-      // Don't allow redraw
-      if (state.isDrawComplete) {
-        console.warn('Draw already completed');
+      if (!isValidPin(pin) || state.pins[id] ||
+          !state.participants.some(p => p.id === id)) {
         return false;
       }
 
-      // Need at least 2 participants
-      if (state.participants.length < 2) {
-        console.warn('Need at least 2 participants');
+      const hashed = await hashPin(pin);
+      // Someone else set it while hashing
+      if (get().pins[id]) return false;
+
+      set(state => {
+        const newState = { pins: { ...state.pins, [id]: hashed } };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+      return true;
+    },
+
+    // Choose the organizer password of a new event (or of an event
+    // created before organizer mode); opens organizer mode
+    createOrganizerPassword: async (password: string) => {
+      const state = get();
+      if (state.organizerLock || state.isSharedSession ||
+          password.length < MIN_ORGANIZER_PASSWORD_LENGTH) {
         return false;
       }
 
-      // Generate derangement
-      const assignments = generateDerangement(state.participants);
-      
-      if (!assignments) {
-        console.error('Failed to generate valid assignments');
+      const { activeEventId } = state;
+      const [organizerLock, keys] = await Promise.all([
+        createOrganizerLock(password),
+        createIntegrityKeys(password),
+      ]);
+      // Another event was opened meanwhile
+      if (get().activeEventId !== activeEventId) return false;
+
+      integrity = { eventId: activeEventId, keys };
+      keepDeviceIntegrityKey(activeEventId, keys.publicKey);
+
+      // Signed by the subscription below, now that the lock changed
+      set(state => {
+        const newState = {
+          organizerLock,
+          isOrganizerUnlocked: true,
+          integrityStatus: 'ok' as const,
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+      return true;
+    },
+
+    // Open organizer mode with the event's password. The first unlock of
+    // a session also checks the signature with the key the password opens.
+    unlockOrganizer: async (password: string) => {
+      const { organizerLock: lock, activeEventId } = get();
+      const record = loadIntegrityRecord(activeEventId);
+      // Without its lock (removed by hand) an event still opens with the
+      // password its signing key is encrypted with, and gets a new lock
+      const recovered = !lock && record ? await unwrapIntegrityKeys(password, record) : null;
+      const isOrganizer = lock ? await verifyOrganizerPassword(password, lock) : recovered !== null;
+      if (!isOrganizer || get().activeEventId !== activeEventId) {
         return false;
       }
 
+      if (integrity?.eventId === activeEventId) {
+        set({ isOrganizerUnlocked: true });
+        return true;
+      }
+
+      let keys: IntegrityKeys | null = recovered;
+      let isIntact = false;
+      if (record) {
+        keys ??= await unwrapIntegrityKeys(password, record);
+        isIntact = keys !== null &&
+          await verifyStateSignature(keys.publicKey, get(), record.signature);
+      }
+      // A missing key, or one that can't be opened, is replaced by a new
+      // key once the data is signed again
+      keys ??= await createIntegrityKeys(password);
+      const organizerLock = lock ?? await createOrganizerLock(password);
+      if (get().activeEventId !== activeEventId) return false;
+
+      integrity = { eventId: activeEventId, keys };
+      if (isIntact) {
+        keepDeviceIntegrityKey(activeEventId, keys.publicKey);
+      }
       set(state => {
         const newState = {
-          assignments,
-          isDrawComplete: true,
-          currentScreen: 'select' as const,
+          organizerLock,
+          isOrganizerUnlocked: true,
+          integrityStatus: isIntact ? 'ok' as const : 'tampered' as const,
+        };
+        // A restored lock is signed once the organizer accepts the data
+        if (organizerLock !== lock) {
+          persistState({
+            ...state,
+            ...newState,
+          });
+        }
+        return newState;
+      });
+      return true;
+    },
+
+    lockOrganizer: () => {
+      set({ isOrganizerUnlocked: false });
+    },
+
+    // Check the stored organizer data against its signature on load; only
+    // the organizer password can sign it again
+    checkIntegrity: async () => {
+      const { integrityStatus, activeEventId } = get();
+      if (integrityStatus !== 'checking') return;
+
+      const record = loadIntegrityRecord(activeEventId);
+      const publicKey = record ? await loadDeviceIntegrityKey(activeEventId) : null;
+      // Every event with a password has a signature, and this device keeps
+      // the key to check it; without either, only the organizer can tell
+      // whether the data is intact
+      const status: IntegrityStatus = record && publicKey &&
+        await verifyStateSignature(publicKey, get(), record.signature)
+        ? 'ok'
+        : 'tampered';
+
+      // A share link or another event may have replaced this one meanwhile
+      if (get().integrityStatus === 'checking' && get().activeEventId === activeEventId) {
+        set({ integrityStatus: status });
+      }
+    },
+
+    // The organizer vouches for data that failed the check; broken pairings
+    // can't be vouched for
+    acceptStoredState: async () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked || integrity?.eventId !== state.activeEventId ||
+          state.integrityStatus !== 'tampered') {
+        return false;
+      }
+      if (state.isDrawComplete && !validateAssignments(
+        state.participants,
+        state.assignments,
+        state.constraints,
+        state.settings
+      )) {
+        return false;
+      }
+
+      keepDeviceIntegrityKey(integrity.eventId, integrity.keys.publicKey);
+      set({ integrityStatus: 'ok' });
+      await signStoredState(get());
+      return true;
+    },
+
+    // Throw away data that failed the check and start over; like any other
+    // organizer action, only after the password
+    discardStoredState: () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked || integrity?.eventId !== state.activeEventId ||
+          state.integrityStatus !== 'tampered') {
+        return;
+      }
+      clearEverything();
+    },
+
+    // Give a random PIN to everyone without one; the PINs are returned
+    // once for the organizer to hand out and only their hashes are kept
+    assignParticipantPins: async () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked) return {};
+      const generated: Record<string, string> = {};
+      for (const p of state.participants) {
+        if (!state.pins[p.id]) generated[p.id] = generatePin();
+      }
+
+      const hashed = Object.fromEntries(await Promise.all(
+        Object.entries(generated).map(async ([id, pin]) => [id, await hashPin(pin)] as const)
+      ));
+
+      set(state => {
+        // Keep PINs people set themselves while these were hashing
+        const newState = { pins: { ...hashed, ...state.pins } };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+      return Object.fromEntries(
+        Object.entries(generated).filter(([id]) => get().pins[id] === hashed[id])
+      );
+    },
+
+    // Forget a participant's PIN and lockout so they can set a new one
+    clearParticipantPin: (id: string) => {
+      if (!get().isOrganizerUnlocked) return;
+
+      set(state => {
+        const newState = {
+          pins: omitKey(state.pins, id),
+          pinAttempts: omitKey(state.pinAttempts, id),
         };
-        saveState({
+        persistState({
           ...state,
           ...newState,
         });
         return newState;
       });
+    },
 
-      return true;
+    // Check a participant's PIN, counting wrong guesses toward a lockout
+    checkParticipantPin: async (id: string, pin: string) => {
+      const state = get();
+      const stored = state.pins[id];
+      const attempts = state.pinAttempts[id];
+      const now = Date.now();
+
+      if (!stored) {
+        return { ok: false, attemptsLeft: 0, lockedUntil: 0 };
+      }
+      if (attempts && attempts.lockedUntil > now) {
+        return { ok: false, attemptsLeft: 0, lockedUntil: attempts.lockedUntil };
+      }
+
+      if (!(await verifyPin(pin, stored))) {
+        const failed = recordFailedAttempt(get().pinAttempts[id], now);
+        set(state => {
+          const newState = {
+            pinAttempts: { ...state.pinAttempts, [id]: failed },
+          };
+          persistState({
+            ...state,
+            ...newState,
+          });
+          return newState;
+        });
+        return {
+          ok: false,
+          attemptsLeft: failed.lockedUntil > now ? 0 : getAttemptsLeft(failed),
+          lockedUntil: failed.lockedUntil,
+        };
+      }
+
+      if (get().pinAttempts[id]) {
+        set(state => {
+          const newState = { pinAttempts: omitKey(state.pinAttempts, id) };
+          persistState({
+            ...state,
+            ...newState,
+          });
+          return newState;
+        });
+      }
+      return { ok: true };
+    },
+
+    // Check a participant's PIN and start their spin if it is right
+    unlockParticipant: async (participant: Participant, pin: string) => {
+      if (get().revealedParticipants.has(participant.id)) {
+        return { ok: false, attemptsLeft: 0, lockedUntil: 0 };
+      }
+
+      const result = await get().checkParticipantPin(participant.id, pin);
+      if (result.ok) {
+        set({
+          selectedParticipant: participant,
+          currentScreen: 'spin',
+        });
+      }
+      return result;
+    },
+
+    // Show a revealed participant their match again, without the wheel.
+    // They prove who they are with their PIN, or by having opened their
+    // own personal link (pin = null); every success is logged.
+    reRevealMatch: async (participant: Participant, pin: string | null) => {
+      const state = get();
+      if (!state.revealedParticipants.has(participant.id)) {
+        return { ok: false, attemptsLeft: 0, lockedUntil: 0 };
+      }
+
+      let method: ReRevealMethod;
+      if (pin === null) {
+        if (state.personalParticipantId !== participant.id) {
+          return { ok: false, attemptsLeft: 0, lockedUntil: 0 };
+        }
+        method = 'link';
+      } else {
+        const result = await state.checkParticipantPin(participant.id, pin);
+        if (!result.ok) {
+          return result;
+        }
+        method = 'pin';
+      }
+
+      set(state => {
+        const newState = {
+          revealAudit: appendRevealAudit(state.revealAudit, participant, method, Date.now()),
+        };
+        persistState({
+          ...state,
+          ...newState,
+        });
+        return newState;
+      });
+      return { ok: true, receivers: get().getAssignmentsFor(participant.id) };
     },
 
     // Select a participant to reveal their match
@@ -158,6 +1610,11 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
         return false;
       }
 
+      // Participants with a PIN go through unlockParticipant
+      if (state.pins[participant.id]) {
+        return false;
+      }
+
       set({
         selectedParticipant: participant,
         currentScreen: 'spin',
@@ -177,13 +1634,19 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
           currentScreen: 'reveal' as const,
         };
         
-        saveState({
+        persistState({
           ...state,
           revealedParticipants: newRevealed,
         });
         
         return newState;
       });
+
+      const { sharedSessionRoom, participants } = get();
+      const participant = participants.find(p => p.id === participantId);
+      if (sharedSessionRoom && participant) {
+        void getRevealSyncAdapter().publish(sharedSessionRoom, participant.name);
+      }
     },
 
     // Get the assigned receiver for a giver
@@ -196,29 +1659,36 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
       return state.participants.find(p => p.id === assignment.receiverId) || null;
     },
 
+    // Get every assigned receiver for a giver (several with k gifts each)
+    getAssignmentsFor: (participantId: string) => {
+      const state = get();
+      return state.assignments
+        .filter(a => a.giverId === participantId)
+        .map(a => state.participants.find(p => p.id === a.receiverId))
+        .filter((p): p is Participant => p !== undefined);
+    },
+
     // Reset everything (admin only)
     resetAll: () => {
-      clearState();
-      set({
-        participants: [],
-        assignments: [],
-        revealedParticipants: new Set(),
-        isDrawComplete: false,
-        currentScreen: 'setup',
-        selectedParticipant: null,
-      });
+      if (!get().isOrganizerUnlocked) return;
+
+      clearEverything();
     },
 
-    // Set current screen
+    // Set current screen; leaving setup hands the device to participants,
+    // so organizer mode locks
     setScreen: (screen: AppState['currentScreen']) => {
-      set({ currentScreen: screen });
+      set(state => ({
+        currentScreen: screen,
+        isOrganizerUnlocked: screen === 'setup' && state.isOrganizerUnlocked,
+      }));
     },
 
     // Toggle sound
     toggleSound: () => {
       set(state => {
         const newState = { soundEnabled: !state.soundEnabled };
-        saveState({
+        persistState({
           ...state,
           ...newState,
         });
@@ -232,30 +1702,259 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
     },
 
     // Share functionality
-    isSharedSession: false,
+    isSharedSession: sharedSession !== null,
+    personalParticipantId: sharedSession?.personalParticipantId ?? null,
+    sharedSessionId: sharedSession?.id ?? null,
+    sharedSessionRoom: sharedSession?.room ?? null,
     
     setIsSharedSession: (value: boolean) => {
       set({ isSharedSession: value });
     },
 
+    // Read the open event from storage, once, when the app starts
+    hydrate: async () => {
+      const { isLoading, isSharedSession, activeEventId } = get();
+      if (!isLoading || isSharedSession) return;
+      await openEvent(activeEventId);
+    },
+
+    // Start a new, empty event next to the others and open it
+    createEvent: (name: string) => {
+      const trimmedName = name.trim().slice(0, MAX_EVENT_NAME_LENGTH);
+      if (!trimmedName || get().isSharedSession) return;
+
+      const event: EventSummary = {
+        id: generateId(),
+        name: trimmedName,
+        createdAt: new Date().toISOString(),
+      };
+      const events = [...get().events, event];
+      saveEventList(events);
+      set({ events });
+      void openEvent(event.id);
+    },
+
+    // Open another of the device's events; organizer mode locks, as each
+    // event has its own password
+    switchEvent: (eventId: string) => {
+      const state = get();
+      if (state.isSharedSession || eventId === state.activeEventId ||
+          !state.events.some(event => event.id === eventId)) {
+        return;
+      }
+      void openEvent(eventId);
+    },
+
+    // Rename the open event (admin only)
+    renameEvent: (name: string) => {
+      const trimmedName = name.trim().slice(0, MAX_EVENT_NAME_LENGTH);
+      if (!trimmedName || !get().isOrganizerUnlocked) return false;
+
+      const events = get().events.map(event =>
+        event.id === get().activeEventId ? { ...event, name: trimmedName } : event
+      );
+      saveEventList(events);
+      set({ events });
+      return true;
+    },
+
+    // Delete the open event and open another one (admin only); the last
+    // event is replaced by an empty one
+    deleteEvent: () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked || state.isSharedSession) return;
+
+      void getStorageAdapter().clearState(state.activeEventId);
+      clearIntegrityRecord(state.activeEventId);
+      void clearDeviceIntegrityKey(state.activeEventId);
+
+      const remaining = state.events.filter(event => event.id !== state.activeEventId);
+      const events = remaining.length > 0 ? remaining : [{
+        id: state.activeEventId === DEFAULT_EVENT_ID ? generateId() : DEFAULT_EVENT_ID,
+        name: DEFAULT_EVENT_NAME,
+        createdAt: new Date().toISOString(),
+      }];
+      saveEventList(events);
+      set({ events });
+      void openEvent(events[0].id);
+    },
+
+    // Follow reveals made on other devices of this shared session, and
+    // report this device's own; returns a function that stops following
+    connectRevealSync: () => {
+      const room = get().sharedSessionRoom;
+      if (!room) return () => {};
+
+      const adapter = getRevealSyncAdapter();
+      return adapter.subscribe(room, names => {
+        const remote = new Set(names.map(name => name.toLowerCase()));
+
+        set(state => {
+          if (state.sharedSessionRoom !== room) return state;
+
+          const newlyRevealed = state.participants.filter(p =>
+            remote.has(p.name.toLowerCase()) && !state.revealedParticipants.has(p.id)
+          );
+          if (newlyRevealed.length === 0) return state;
+
+          const revealedParticipants = new Set(state.revealedParticipants);
+          newlyRevealed.forEach(p => revealedParticipants.add(p.id));
+          persistState({
+            ...state,
+            revealedParticipants,
+          });
+          return { revealedParticipants };
+        });
+
+        // Reveals made here while offline (or before connecting)
+        const state = get();
+        state.participants
+          .filter(p => state.revealedParticipants.has(p.id) && !remote.has(p.name.toLowerCase()))
+          .forEach(p => void adapter.publish(room, p.name));
+      });
+    },
+
+    // Follow what the app's other tabs save for the event (or shared
+    // session) shown here; returns a function that stops following
+    connectTabSync: () => {
+      const receive = async (message: TabSyncMessage) => {
+        const isSigned = !get().isSharedSession && await isTabMessageSigned(message, get().activeEventId);
+        const state = get();
+        if (state.isLoading || message.scope !== getSyncScope(state)) return;
+
+        const changedAt = lastLocalChange?.scope === message.scope ? lastLocalChange.at : null;
+        const merged = mergeTabState(toStoredEventState(state), message, changedAt);
+        // Organizer data of a password-protected event that comes unsigned
+        // is treated like data edited by hand: kept, but never signed again
+        // until the organizer accepts it
+        const isForged = merged.tookRemote && !isSigned && !state.isSharedSession &&
+          (state.organizerLock !== null || merged.state.organizerLock !== null ||
+            hasIntegrityRecord(state.activeEventId)) &&
+          canonicalJson(pickSignedState(merged.state)) !== canonicalJson(pickSignedState(state));
+        if (merged.tookRemote) {
+          lastLocalChange = null;
+        } else if (merged.conflicts.length === 0 &&
+            merged.state.revealedParticipants.length === state.revealedParticipants.size &&
+            merged.state.revealAudit.length === state.revealAudit.length) {
+          // Nothing this tab doesn't have already
+          return;
+        }
+
+        set(state => {
+          const newState = {
+            ...merged.state,
+            revealedParticipants: new Set(merged.state.revealedParticipants),
+            // A draw made or undone in another tab moves this one along
+            ...(merged.state.isDrawComplete !== state.isDrawComplete ? {
+              currentScreen: merged.state.isDrawComplete ? 'select' as const : 'setup' as const,
+              selectedParticipant: null,
+            } : {}),
+            drawDiagnostic: null,
+            tabSyncConflict: merged.conflicts.length > 0
+              ? { fields: merged.conflicts, keptOwn: !merged.tookRemote }
+              : state.tabSyncConflict,
+            ...(isForged ? { integrityStatus: 'tampered' as const } : {}),
+          };
+          // Saved here too: the merge may hold more than either tab had
+          persistState({
+            ...state,
+            ...newState,
+          }, false);
+          return newState;
+        });
+      };
+
+      // One message at a time, in the order they came, though checking a
+      // signature takes a while
+      let received = Promise.resolve();
+      const channel = createTabChannel(message => {
+        received = received
+          .then(() => receive(message))
+          .catch(error => console.error('Failed to apply a change from another tab:', error));
+      });
+
+      tabChannel = channel;
+      return () => {
+        channel.close();
+        if (tabChannel === channel) tabChannel = null;
+      };
+    },
+
+    dismissTabSyncConflict: () => {
+      set({ tabSyncConflict: null });
+    },
+
+    // Go back to this device's own event; the shared session stays saved
+    // and reopens with its progress if its link is opened again
+    leaveSharedSession: () => {
+      if (!get().isSharedSession) return;
+
+      clearActiveSharedSession();
+      set({
+        isSharedSession: false,
+        personalParticipantId: null,
+        sharedSessionId: null,
+        sharedSessionRoom: null,
+      });
+      void openEvent(get().activeEventId);
+    },
+
     // Generate a shareable link with encoded data
-    generateShareLink: () => {
+    generateShareLink: async () => {
       const state = get();
+      // The full link holds every pairing
+      if (!state.isOrganizerUnlocked) return '';
+
       const shareData: ShareData = {
         participants: state.participants,
         assignments: state.assignments,
+        constraints: state.constraints,
+        settings: state.settings,
+        ...(state.commitment ? {
+          commitment: state.commitment,
+          commitmentSalts: state.commitmentSalts,
+        } : {}),
       };
       
-      const encoded = btoa(encodeURIComponent(JSON.stringify(shareData)));
-      const baseUrl = window.location.origin + window.location.pathname;
-      return `${baseUrl}?kura=${encoded}`;
+      return `${getShareBaseUrl()}?kura=${await encodeShareData(shareData)}`;
+    },
+
+    // Generate one private link per participant, holding only their own match
+    generatePersonalShareLinks: () => {
+      const state = get();
+      if (!state.isOrganizerUnlocked) return Promise.resolve([]);
+
+      const baseUrl = getShareBaseUrl();
+
+      return Promise.all(state.participants.map(async participant => {
+        const salt = state.commitmentSalts[participant.id];
+        const shareData: PersonalShareData = {
+          participants: state.participants,
+          giverId: participant.id,
+          receiverIds: state.assignments
+            .filter(a => a.giverId === participant.id)
+            .map(a => a.receiverId),
+          ...(state.commitment && salt ? {
+            commitment: state.commitment,
+            commitmentSalt: salt,
+          } : {}),
+        };
+        return {
+          participant,
+          url: `${baseUrl}?kisi=${await encodePersonalShareData(shareData)}`,
+        };
+      }));
     },
 
     // Load state from shared data
-    loadFromShareData: (encodedData: string) => {
+    loadFromShareData: async (encodedData: string) => {
       try {
-        const decoded = decodeURIComponent(atob(encodedData));
-        const shareData: ShareData = JSON.parse(decoded);
+        const decoded = await decodeSharePayload(encodedData);
+        if (decoded.kind !== 'full') {
+          console.error('Expected a link with every pairing');
+          return false;
+        }
+        const shareData = decoded.data;
         
         // Validate the data
         if (!shareData.participants || !shareData.assignments) {
@@ -263,18 +1962,38 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
           return false;
         }
         
-        if (!validateAssignments(shareData.participants, shareData.assignments)) {
+        // Links created before constraints existed simply have none
+        const constraints = shareData.constraints ?? EMPTY_CONSTRAINTS;
+        if (!isValidConstraints(constraints)) {
+          console.error('Invalid constraints in share data');
+          return false;
+        }
+        
+        const settings = normalizeDrawSettings(shareData.settings);
+        
+        if (!validateAssignments(
+          shareData.participants,
+          shareData.assignments,
+          constraints,
+          settings
+        )) {
           console.error('Invalid assignments in share data');
           return false;
         }
         
-        set({
+        // Links from before commitments existed have nothing to verify
+        const commitment = isValidCommitment(shareData.commitment)
+          ? shareData.commitment
+          : null;
+        
+        await openSharedSession({
+          personalParticipantId: null,
           participants: shareData.participants,
           assignments: shareData.assignments,
-          isDrawComplete: true,
-          currentScreen: 'select',
-          revealedParticipants: new Set(),
-          isSharedSession: true,
+          constraints,
+          settings,
+          commitment,
+          commitmentSalts: commitment ? shareData.commitmentSalts ?? {} : {},
         });
         
         return true;
@@ -283,5 +2002,66 @@ export const useSecretSantaStore = create<SecretSantaStore>((set, get) => {
         return false;
       }
     },
+
+    // Load one participant's private link and go straight to their spin
+    loadFromPersonalShareData: async (encodedData: string) => {
+      try {
+        const decoded = await decodeSharePayload(encodedData);
+        if (decoded.kind !== 'personal') {
+          console.error('Expected a personal link');
+          return false;
+        }
+        const shareData = decoded.data;
+        const { participants, giverId, receiverIds } = shareData;
+
+        if (!Array.isArray(participants) || !Array.isArray(receiverIds)) {
+          console.error('Invalid personal share data structure');
+          return false;
+        }
+
+        const ids = new Set(participants.map(p => p.id));
+        const giver = participants.find(p => p.id === giverId);
+        const isValid = giver !== undefined &&
+          receiverIds.length > 0 &&
+          new Set(receiverIds).size === receiverIds.length &&
+          receiverIds.every(id => id !== giverId && ids.has(id));
+        if (!isValid) {
+          console.error('Invalid assignment in personal share data');
+          return false;
+        }
+
+        const commitment = isValidCommitment(shareData.commitment) &&
+          typeof shareData.commitmentSalt === 'string'
+          ? shareData.commitment
+          : null;
+
+        await openSharedSession({
+          personalParticipantId: giverId,
+          participants,
+          // Only this giver's pairs are known on this device
+          assignments: receiverIds.map(receiverId => ({ giverId, receiverId })),
+          constraints: EMPTY_CONSTRAINTS,
+          settings: normalizeDrawSettings({
+            ...DEFAULT_DRAW_SETTINGS,
+            giftsPerPerson: receiverIds.length,
+          }),
+          commitment,
+          commitmentSalts: commitment ? { [giverId]: shareData.commitmentSalt! } : {},
+        });
+
+        return true;
+      } catch (error) {
+        console.error('Failed to parse personal share data:', error);
+        return false;
+      }
+    },
   };
 });
+
+// Re-sign the organizer's data whenever it changes
+useSecretSantaStore.subscribe((state, previous) => {
+  if (state.integrityStatus === 'ok' && !state.isSharedSession &&
+      hasSignedChange(state, previous)) {
+    void signStoredState(state);
+  }
+});
@@ -5,6 +5,10 @@
 export interface Participant {
   id: string;
   name: string;
+  // Team or department, used by the cross-group draw
+  group?: string;
+  // Gift ideas the participant entered when joining, shown to their giver
+  wishlist?: string;
 }
 
 export interface Assignment {
@@ -12,21 +16,272 @@ export interface Assignment {
   receiverId: string;
 }
 
+// A "cannot give to" rule between two participants
+export interface ExclusionRule {
+  id: string;
+  giverId: string;
+  receiverId: string;
+  // When true the rule also applies from receiver to giver
+  mutual: boolean;
+}
+
+// A named group of people who never draw each other (couples, families)
+export interface Household {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+// Everything the draw engine must honor besides "no self-assignment"
+export interface DrawConstraints {
+  exclusions: ExclusionRule[];
+  households: Household[];
+}
+
+// Public SHA-256 commitment to a draw (see utils/commitment.ts)
+export interface DrawCommitment {
+  version: number;
+  // Hex hash of the sorted leaves; its fingerprint is shown to everyone
+  root: string;
+  // One salted hash per giver -> receiver pair, sorted
+  leaves: string[];
+}
+
+// Salted hash of a participant's PIN (see utils/pin.ts)
+export interface ParticipantPin {
+  salt: string;
+  hash: string;
+}
+
+// Wrong PIN guesses for one participant
+export interface PinAttempts {
+  // Counts up until the right PIN is entered
+  failures: number;
+  // Epoch ms until which no guesses are accepted (0 = not locked)
+  lockedUntil: number;
+}
+
+// Salted hash of the organizer password
+export interface OrganizerLock {
+  salt: string;
+  hash: string;
+}
+
+// ECDSA signature over the organizer-controlled state, with the signing
+// key encrypted by a key derived from the organizer password
+export interface IntegrityRecord {
+  salt: string; // of the password-derived key
+  iv: string;
+  wrappedKey: string; // the private key's JWK, encrypted
+  signature: string;
+}
+
+// 'checking': load-time check still running; 'tampered': the stored state
+// no longer matches its signature, or can't be checked on this device
+export type IntegrityStatus = 'checking' | 'ok' | 'tampered';
+
+// Outcome of entering a PIN
+export type PinCheckResult =
+  | { ok: true }
+  | { ok: false; attemptsLeft: number; lockedUntil: number };
+
+// How a participant proved who they were before seeing their match again
+// ('link': they opened their own personal link)
+export type ReRevealMethod = 'pin' | 'link';
+
+// One "show my match again" in the local audit log
+export interface RevealAuditEntry {
+  participantId: string;
+  // Kept so the log still reads after the participant is removed
+  participantName: string;
+  at: number;
+  method: ReRevealMethod;
+}
+
+// Outcome of a re-reveal; receivers are the participant's own matches
+export type ReRevealResult =
+  | { ok: true; receivers: Participant[] }
+  | { ok: false; attemptsLeft: number; lockedUntil: number };
+
+// A participant's self-registration through the event's join code
+export interface JoinRequest {
+  code: string;
+  name: string;
+  wishlist?: string;
+}
+
+// Outcome of adding registrations: names added, and names skipped because
+// they were already on the list
+export interface JoinResult {
+  added: string[];
+  skipped: string[];
+}
+
+// One participant read from a CSV file; empty cells are left out
+export interface ParticipantImportRow {
+  name: string;
+  group?: string;
+  wishlist?: string;
+}
+
+// 'merge': file rows are added to the list, or update who is already on it
+// 'replace': the list becomes exactly the file's rows
+export type ParticipantImportMode = 'merge' | 'replace';
+
+// What importing participants changes, by name
+export interface ParticipantImportPreview {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+// 'standard': any derangement (may split into small loops like A↔B)
+// 'chain': everyone forms one single gift-giving cycle
+export type DrawMode = 'standard' | 'chain';
+
+// 'soft': avoid repeats when possible, 'hard': never repeat
+export type HistoryPolicy = 'soft' | 'hard';
+
+// 'off': groups are ignored, 'prefer': avoid same-group pairs when possible,
+// 'require': never pair people from the same group
+export type GroupPolicy = 'off' | 'prefer' | 'require';
+
+// Organizer choices that shape how the draw is made
+export interface DrawSettings {
+  mode: DrawMode;
+  // How many past rounds to avoid repeating pairs from (0 = off)
+  avoidRecentRounds: number;
+  historyPolicy: HistoryPolicy;
+  // Seed for a reproducible draw ('' = secure random, not reproducible)
+  seed: string;
+  // Gifts each person buys (and receives); chain mode needs exactly 1
+  giftsPerPerson: number;
+  // Whether gifts must cross participant groups
+  groupPolicy: GroupPolicy;
+}
+
+// A giver -> receiver pair from an earlier round. Names are kept instead of
+// ids because ids change when people are added again the next year.
+export interface PastPairing {
+  giverName: string;
+  receiverName: string;
+}
+
+// A change made to a finished draw: someone dropped out or joined late
+export interface DrawChange {
+  kind: 'withdraw' | 'join';
+  at: string; // ISO timestamp
+  participantName: string;
+  // Givers whose receivers changed because of it
+  affectedGiverNames: string[];
+  // Those of them who had already seen their old match
+  revealedGiverNames: string[];
+}
+
+// One completed draw, newest rounds last
+export interface DrawRound {
+  id: string;
+  drawnAt: string; // ISO timestamp
+  pairings: PastPairing[];
+  // Pairs repeated from recent rounds because they could not be avoided
+  repeatedPairs: number;
+  // Engine version that made the draw; replays need the same version
+  algorithmVersion?: number;
+  // Seed of a reproducible draw (absent for secure random draws)
+  seed?: string;
+  // Changes made after the draw; pairings already include them
+  changes?: DrawChange[];
+}
+
+// A rule the organizer could relax to make an impossible draw possible
+export interface RelaxSuggestion {
+  // 'history' stands for all pairs blocked by the "no repeats" setting,
+  // 'group' for all pairs blocked by the cross-group requirement
+  kind: 'exclusion' | 'household' | 'history' | 'group';
+  ruleId: string;
+  // Number of blocked pairs the rule is responsible for
+  blockedPairs: number;
+}
+
+// Explains why no valid draw exists
+export interface DrawDiagnostic {
+  // 'givers': these people have too few eligible receivers
+  // 'receivers': these people can be drawn by too few givers
+  // 'chain': pairs exist, but the rules leave no single cycle
+  // 'gifts': pairs exist, but not enough for everyone to give k gifts
+  side: 'givers' | 'receivers' | 'chain' | 'gifts';
+  participantIds: string[];
+  // Who the group can still draw (or be drawn by); too few for the group
+  candidateIds: string[];
+  // Most impactful first
+  suggestions: RelaxSuggestion[];
+}
+
+// One event in the device's event list; its data is stored apart
+export interface EventSummary {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+}
+
+// Fields two tabs changed at once, and whose version was kept
+export interface TabSyncConflict {
+  fields: string[];
+  keptOwn: boolean;
+}
+
 export interface AppState {
+  // Events on this device, and the one the state below belongs to
+  events: EventSummary[];
+  activeEventId: string;
+  // Whether the open event is still being read from storage
+  isLoading: boolean;
   // Participants list
   participants: Participant[];
   // Assignments after draw (giver -> receiver mapping)
   assignments: Assignment[];
+  // Exclusion rules and households the draw must respect
+  constraints: DrawConstraints;
+  // How the draw is made (stored with the event)
+  settings: DrawSettings;
+  // Past rounds of this event, used to avoid repeating pairs
+  history: DrawRound[];
+  // Published commitment to the current draw (computed right after it)
+  commitment: DrawCommitment | null;
+  // Secret salt of each giver's committed pair, keyed by giver id
+  commitmentSalts: Record<string, string>;
+  // Hashed PIN of each participant who set one, keyed by participant id
+  pins: Record<string, ParticipantPin>;
+  // Wrong PIN guesses, keyed by participant id
+  pinAttempts: Record<string, PinAttempts>;
   // Set of participant IDs who have already revealed their match
   revealedParticipants: Set<string>;
+  // Every "show my match again", oldest first
+  revealAudit: RevealAuditEntry[];
+  // Organizer password, set when the event is created
+  organizerLock: OrganizerLock | null;
+  // Whether the organizer unlocked the setup screen (never stored)
+  isOrganizerUnlocked: boolean;
+  // Whether the stored organizer data still matches its signature
+  integrityStatus: IntegrityStatus;
+  // Code participants join with (null while registration is closed)
+  joinCode: string | null;
+  // Names (lower case) already taken from registrations for joinCode; the
+  // live feed resends everyone, and someone removed since must stay out
+  handledJoinNames: string[];
   // Whether the draw has been completed
   isDrawComplete: boolean;
+  // Why the last draw attempt failed, if it did
+  drawDiagnostic: DrawDiagnostic | null;
   // Current screen in the app flow
   currentScreen: 'setup' | 'select' | 'spin' | 'reveal';
   // Currently selected participant (for spin/reveal)
   selectedParticipant: Participant | null;
   // Sound enabled state
   soundEnabled: boolean;
+  // Edits another tab made at the same time as this one, until dismissed
+  tabSyncConflict: TabSyncConflict | null;
 }
 
 export interface SecretSantaStore extends AppState {
@@ -34,22 +289,115 @@ export interface SecretSantaStore extends AppState {
   addParticipant: (name: string) => void;
   removeParticipant: (id: string) => void;
   performDraw: () => boolean;
+  addExclusion: (giverId: string, receiverId: string, mutual: boolean) => void;
+  removeExclusion: (id: string) => void;
+  addHousehold: (name: string) => void;
+  removeHousehold: (id: string) => void;
+  toggleHouseholdMember: (householdId: string, participantId: string) => void;
+  setDrawMode: (mode: DrawMode) => void;
+  setHistoryAvoidance: (rounds: number, policy: HistoryPolicy) => void;
+  setDrawSeed: (seed: string) => void;
+  setGiftsPerPerson: (count: number) => void;
+  setParticipantGroup: (id: string, group: string) => void;
+  setGroupPolicy: (policy: GroupPolicy) => void;
+  verifyDraw: () => boolean | null;
+  verifyCommittedAssignment: (participantId: string) => Promise<boolean | null>;
+  withdrawParticipant: (id: string) => DrawChange | null;
+  addLateParticipant: (name: string, group?: string) => DrawChange | null;
+  startNewRound: () => void;
+  createOrganizerPassword: (password: string) => Promise<boolean>;
+  unlockOrganizer: (password: string) => Promise<boolean>;
+  lockOrganizer: () => void;
+  checkIntegrity: () => Promise<void>;
+  acceptStoredState: () => Promise<boolean>;
+  discardStoredState: () => void;
+  openRegistration: () => void;
+  closeRegistration: () => void;
+  addJoinRequests: (requests: JoinRequest[]) => JoinResult;
+  exportEventFile: () => string | null;
+  importEventFile: (text: string) => boolean;
+  importParticipants: (rows: ParticipantImportRow[], mode: ParticipantImportMode) => ParticipantImportPreview | null;
+  setParticipantPin: (id: string, pin: string) => Promise<boolean>;
+  assignParticipantPins: () => Promise<Record<string, string>>;
+  clearParticipantPin: (id: string) => void;
+  checkParticipantPin: (id: string, pin: string) => Promise<PinCheckResult>;
+  unlockParticipant: (participant: Participant, pin: string) => Promise<PinCheckResult>;
+  reRevealMatch: (participant: Participant, pin: string | null) => Promise<ReRevealResult>;
   selectParticipant: (participant: Participant) => boolean;
   markAsRevealed: (participantId: string) => void;
   getAssignmentFor: (participantId: string) => Participant | null;
+  getAssignmentsFor: (participantId: string) => Participant[];
   resetAll: () => void;
   setScreen: (screen: AppState['currentScreen']) => void;
   toggleSound: () => void;
   isParticipantRevealed: (participantId: string) => boolean;
   // Share functionality
-  generateShareLink: () => string;
-  loadFromShareData: (data: string) => boolean;
+  generateShareLink: () => Promise<string>;
+  generatePersonalShareLinks: () => Promise<PersonalShareLink[]>;
+  loadFromShareData: (data: string) => Promise<boolean>;
+  loadFromPersonalShareData: (data: string) => Promise<boolean>;
   isSharedSession: boolean;
+  // Giver a personal link was opened for (null outside personal links)
+  personalParticipantId: string | null;
+  // Saved shared session and its sync room (null outside shared sessions)
+  sharedSessionId: string | null;
+  sharedSessionRoom: string | null;
   setIsSharedSession: (value: boolean) => void;
+  hydrate: () => Promise<void>;
+  createEvent: (name: string) => void;
+  switchEvent: (eventId: string) => void;
+  renameEvent: (name: string) => boolean;
+  deleteEvent: () => void;
+  connectRevealSync: () => () => void;
+  connectTabSync: () => () => void;
+  dismissTabSyncConflict: () => void;
+  leaveSharedSession: () => void;
 }
 
 // Data structure for sharing via URL
 export interface ShareData {
   participants: Participant[];
   assignments: Assignment[];
+  // Missing in links created before constraints existed
+  constraints?: DrawConstraints;
+  settings?: DrawSettings;
+  commitment?: DrawCommitment;
+  commitmentSalts?: Record<string, string>;
+}
+
+
+// Data structure for one participant's private link. It carries everyone's
+// names (for the wheel) but only this giver's own receivers.
+export interface PersonalShareData {
+  participants: Participant[];
+  giverId: string;
+  receiverIds: string[];
+  commitment?: DrawCommitment;
+  // This giver's salt only, so they can check their pair
+  commitmentSalt?: string;
+}
+
+// A shared session saved on this device, under its own key so it never
+// mixes with the device's own event
+export interface SharedSessionRecord {
+  id: string;
+  // Sync room, the same for every link of the draw
+  room: string;
+  personalParticipantId: string | null;
+  participants: Participant[];
+  assignments: Assignment[];
+  constraints: DrawConstraints;
+  settings: DrawSettings;
+  commitment: DrawCommitment | null;
+  commitmentSalts: Record<string, string>;
+  pins: Record<string, ParticipantPin>;
+  pinAttempts: Record<string, PinAttempts>;
+  revealedParticipants: string[];
+  revealAudit: RevealAuditEntry[];
+}
+
+// A private reveal link for one participant
+export interface PersonalShareLink {
+  participant: Participant;
+  url: string;
 }
@@ -0,0 +1,121 @@
+/**
+ * Draw commitment utilities
+ *
+ * When the draw is made we publish a SHA-256 commitment to it: every pair
+ * is hashed with its own random salt into a "leaf", and the sorted leaves
+ * are hashed into a root. Everyone sees a short fingerprint of the root.
+ *
+ * A participant who knows their own pair and salt can recompute their leaf
+ * and check that it is part of the committed draw. The salts keep leaves
+ * from revealing anyone else's pair, and since the fingerprint was shown to
+ * everyone up front, a quiet redraw would change it for all to see.
+ */
+
+import type { Participant, Assignment, DrawCommitment } from '../types';
+import { bytesToHex } from './encoding';
+
+// Bump if the leaf or root format ever changes
+export const COMMITMENT_VERSION = 1;
+
+/**
+ * SHA-256 of a UTF-8 string, as hex
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Hashes one salted pair. Names are used instead of ids so the check still
+ * works on devices that rebuilt ids from a share link.
+ */
+function hashLeaf(salt: string, giverName: string, receiverName: string): Promise<string> {
+  return sha256Hex(JSON.stringify([COMMITMENT_VERSION, salt, giverName, receiverName]));
+}
+
+/**
+ * Hashes the sorted leaves into the root
+ */
+function hashRoot(leaves: string[]): Promise<string> {
+  return sha256Hex(JSON.stringify([COMMITMENT_VERSION, [...leaves].sort()]));
+}
+
+/**
+ * Commits to a draw
+ *
+ * @returns The public commitment and the secret salt for each giver id
+ * (one salt per giver, shared by all of their pairs)
+ */
+export async function createCommitment(
+  participants: Participant[],
+  assignments: Assignment[]
+): Promise<{ commitment: DrawCommitment; salts: Record<string, string> }> {
+  const nameOf = (id: string) => participants.find(p => p.id === id)?.name ?? '';
+  const salts: Record<string, string> = {};
+
+  for (const a of assignments) {
+    salts[a.giverId] ??= bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  }
+
+  const leaves = await Promise.all(assignments.map(a =>
+    hashLeaf(salts[a.giverId], nameOf(a.giverId), nameOf(a.receiverId))
+  ));
+
+  // Sorted so the order of leaves says nothing about who is who
+  const sortedLeaves = [...leaves].sort();
+  return {
+    commitment: {
+      version: COMMITMENT_VERSION,
+      root: await hashRoot(sortedLeaves),
+      leaves: sortedLeaves,
+    },
+    salts,
+  };
+}
+
+/**
+ * Checks that one revealed pair is part of the committed draw
+ * The leaves must also hash to the published root
+ */
+export async function verifyCommittedPair(
+  commitment: DrawCommitment,
+  giverName: string,
+  receiverName: string,
+  salt: string
+): Promise<boolean> {
+  if (commitment.version !== COMMITMENT_VERSION) {
+    return false;
+  }
+
+  const [leaf, root] = await Promise.all([
+    hashLeaf(salt, giverName, receiverName),
+    hashRoot(commitment.leaves),
+  ]);
+  return root === commitment.root && commitment.leaves.includes(leaf);
+}
+
+/**
+ * Short, readable fingerprint of the commitment root (e.g. "3F9A-0C27-B81E")
+ */
+export function formatFingerprint(root: string): string {
+  return root.slice(0, 12).toUpperCase().match(/.{4}/g)!.join('-');
+}
+
+/**
+ * Runtime shape check for commitments coming from storage or share links
+ */
+export function isValidCommitment(value: unknown): value is DrawCommitment {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { version, root, leaves } = value as Partial<DrawCommitment>;
+  return typeof version === 'number' &&
+    typeof root === 'string' &&
+    /^[0-9a-f]{64}$/.test(root) &&
+    Array.isArray(leaves) &&
+    leaves.every(leaf => typeof leaf === 'string');
+}
@@ -0,0 +1,132 @@
+/**
+ * Draw constraint utilities
+ * Pairwise "cannot give to" rules and households that never draw each other
+ */
+
+import type { Participant, Assignment, DrawConstraints } from '../types';
+
+export const EMPTY_CONSTRAINTS: DrawConstraints = {
+  exclusions: [],
+  households: [],
+};
+
+/**
+ * Checks whether a giver may be assigned a receiver
+ * Self-assignment is always forbidden
+ */
+export function isPairAllowed(
+  giverId: string,
+  receiverId: string,
+  constraints: DrawConstraints
+): boolean {
+  if (giverId === receiverId) {
+    return false;
+  }
+
+  const excluded = constraints.exclusions.some(rule =>
+    (rule.giverId === giverId && rule.receiverId === receiverId) ||
+    (rule.mutual && rule.giverId === receiverId && rule.receiverId === giverId)
+  );
+  if (excluded) {
+    return false;
+  }
+
+  return !constraints.households.some(household =>
+    household.memberIds.includes(giverId) &&
+    household.memberIds.includes(receiverId)
+  );
+}
+
+/**
+ * Lists the rules that forbid a giver -> receiver pair
+ * Used to suggest which rule to relax when a draw is impossible
+ */
+export function findBlockingRules(
+  giverId: string,
+  receiverId: string,
+  constraints: DrawConstraints
+): { exclusionIds: string[]; householdIds: string[] } {
+  return {
+    exclusionIds: constraints.exclusions
+      .filter(rule =>
+        (rule.giverId === giverId && rule.receiverId === receiverId) ||
+        (rule.mutual && rule.giverId === receiverId && rule.receiverId === giverId)
+      )
+      .map(rule => rule.id),
+    householdIds: constraints.households
+      .filter(household =>
+        household.memberIds.includes(giverId) &&
+        household.memberIds.includes(receiverId)
+      )
+      .map(household => household.id),
+  };
+}
+
+/**
+ * Builds the giver x receiver eligibility matrix in participant order
+ */
+export function buildEligibilityMatrix(
+  participants: Participant[],
+  constraints: DrawConstraints
+): boolean[][] {
+  return participants.map(giver =>
+    participants.map(receiver =>
+      isPairAllowed(giver.id, receiver.id, constraints)
+    )
+  );
+}
+
+/**
+ * Checks that every assignment respects the constraints
+ */
+export function satisfiesConstraints(
+  assignments: Assignment[],
+  constraints: DrawConstraints
+): boolean {
+  return assignments.every(a =>
+    isPairAllowed(a.giverId, a.receiverId, constraints)
+  );
+}
+
+/**
+ * Drops rules and household members that refer to participants
+ * no longer in the list
+ */
+export function pruneConstraints(
+  constraints: DrawConstraints,
+  participants: Participant[]
+): DrawConstraints {
+  const ids = new Set(participants.map(p => p.id));
+
+  return {
+    exclusions: constraints.exclusions.filter(
+      rule => ids.has(rule.giverId) && ids.has(rule.receiverId)
+    ),
+    households: constraints.households.map(household => ({
+      ...household,
+      memberIds: household.memberIds.filter(id => ids.has(id)),
+    })),
+  };
+}
+
+/**
+ * Runtime shape check for constraints coming from storage or share links
+ */
+export function isValidConstraints(value: unknown): value is DrawConstraints {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { exclusions, households } = value as Partial<DrawConstraints>;
+  return Array.isArray(exclusions) &&
+    Array.isArray(households) &&
+    exclusions.every(rule =>
+      typeof rule?.giverId === 'string' &&
+      typeof rule?.receiverId === 'string' &&
+      typeof rule?.mutual === 'boolean'
+    ) &&
+    households.every(household =>
+      typeof household?.name === 'string' &&
+      Array.isArray(household?.memberIds)
+    );
+}
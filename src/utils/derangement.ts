@@ -4,102 +4,260 @@
  * A derangement is a permutation where no element appears in its original position.
  * This ensures no one draws themselves in Secret Santa.
  * 
- * Algorithm: Fisher-Yates shuffle with derangement validation
- * We shuffle and check if it's a valid derangement. If not, we retry.
+ * Algorithm: randomized bipartite matching
+ * Every allowed giver -> receiver pair is an edge (self-pairs and constrained
+ * pairs are left out), and a perfect matching on that graph is a valid draw.
  * 
- * Mathematical note: The probability of a random permutation being a derangement
- * approaches 1/e ≈ 0.368 as n grows, so we expect ~2.7 attempts on average.
+ * Shuffle-and-retry works for plain derangements (~2.7 attempts on average),
+ * but with couples and households the valid permutations can become too rare
+ * to hit by chance. Augmenting paths always find a draw when one exists.
+ * 
+ * Chain mode asks for more: the assignment must be one single cycle
+ * (A → B → C → ... → A) so gifts can be handed over in one round.
+ * 
+ * Pairs from recent rounds are either forbidden outright (hard) or given a
+ * cost so the fewest possible repeats are drawn (soft).
+ * 
+ * With several gifts per person the draw is a k-regular assignment: everyone
+ * gives k gifts and receives k, never to themselves and never twice to the
+ * same person.
+ * 
+ * Participants may belong to groups (teams, departments). The cross-group
+ * policy either forbids same-group pairs or makes them so costly that they
+ * are only drawn when nothing else works.
+ * 
+ * Randomness comes from a RandomSource: crypto.getRandomValues by default,
+ * or a seeded generator so a recorded draw can be replayed and verified.
  */
 
-import type { Participant, Assignment } from '../types';
+import type {
+  Participant,
+  Assignment,
+  DrawConstraints,
+  DrawSettings,
+  DrawRound,
+} from '../types';
+import { EMPTY_CONSTRAINTS, buildEligibilityMatrix, satisfiesConstraints } from './constraints';
+import { DEFAULT_DRAW_SETTINGS } from './settings';
+import { buildRepeatMatrix } from './history';
+import { buildSameGroupMatrix, isSameGroup } from './groups';
+import { cryptoRandom, createSeededRandom, type RandomSource } from './random';
+import {
+  findPerfectMatching,
+  findMinCostPerfectMatching,
+  findHamiltonianCycle,
+  findRegularAssignment,
+} from './matching';
+
+// Bump whenever a change would make the same seed produce a different draw
+export const DRAW_ALGORITHM_VERSION = 1;
+
+// Result of a successful draw
+export interface DrawOutcome {
+  assignments: Assignment[];
+  // Pairs from recent rounds that had to be repeated (soft policy only)
+  repeatedPairs: number;
+}
 
 /**
- * Shuffles an array using Fisher-Yates algorithm
- * Creates a new array, doesn't mutate the original
+ * Turns a receiver index per giver into assignments
  */
-function shuffle<T>(array: T[]): T[] {
-  const result = [...array];
-  for (let i = result.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
-  }
-  return result;
+function toAssignments(
+  participants: Participant[],
+  receiverOf: number[]
+): Assignment[] {
+  return participants.map((giver, index) => ({
+    giverId: giver.id,
+    receiverId: participants[receiverOf[index]].id,
+  }));
 }
 
 /**
- * Checks if a permutation is a valid derangement
- * (no element is in its original position)
+ * Turns several receiver indices per giver into assignments
  */
-function isDerangement(original: string[], shuffled: string[]): boolean {
-  for (let i = 0; i < original.length; i++) {
-    if (original[i] === shuffled[i]) {
-      return false;
-    }
-  }
-  return true;
+function toMultiAssignments(
+  participants: Participant[],
+  receiversOf: number[][]
+): Assignment[] {
+  return participants.flatMap((giver, index) =>
+    receiversOf[index].map(receiver => ({
+      giverId: giver.id,
+      receiverId: participants[receiver].id,
+    }))
+  );
 }
 
 /**
- * Generates a valid derangement for Secret Santa assignments
+ * Runs the draw algorithm selected by the settings
  * 
  * @param participants - Array of participants
- * @param maxAttempts - Maximum shuffle attempts before giving up (default: 1000)
- * @returns Array of assignments or null if generation fails
- * 
- * Each assignment maps a giver to a receiver, ensuring:
- * 1. No one draws themselves
- * 2. Everyone gives exactly one gift
- * 3. Everyone receives exactly one gift
+ * @param constraints - Exclusion rules and households to honor
+ * @param settings - Draw mode and repeat avoidance options
+ * @param history - Past rounds of this event, oldest first
+ * @param rng - Random source (secure by default)
+ * @returns The draw, or null if no valid draw exists
  */
-export function generateDerangement(
+export function drawAssignments(
   participants: Participant[],
-  maxAttempts: number = 1000
-): Assignment[] | null {
-  // Need at least 2 participants for Secret Santa
-  if (participants.length < 2) {
-    console.error('Need at least 2 participants for Secret Santa');
+  constraints: DrawConstraints,
+  settings: DrawSettings,
+  history: DrawRound[] = [],
+  rng: RandomSource = cryptoRandom
+): DrawOutcome | null {
+  const gifts = settings.giftsPerPerson;
+  if (participants.length < Math.max(2, gifts + 1)) {
+    console.error(`Need at least ${Math.max(2, gifts + 1)} participants for this draw`);
     return null;
   }
 
-  const ids = participants.map(p => p.id);
-  
-  // Try to generate a valid derangement
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    const shuffledIds = shuffle(ids);
-    
-    if (isDerangement(ids, shuffledIds)) {
-      // Valid derangement found! Create assignments
-      const assignments: Assignment[] = ids.map((giverId, index) => ({
-        giverId,
-        receiverId: shuffledIds[index]
-      }));
-      
-      console.log(`Derangement generated successfully in ${attempt + 1} attempts`);
-      return assignments;
+  const sameGroup = buildSameGroupMatrix(participants);
+  const eligible = buildEligibilityMatrix(participants, constraints)
+    .map((row, g) => row.map((allowed, r) =>
+      allowed && !(settings.groupPolicy === 'require' && sameGroup[g][r])
+    ));
+  const repeats = buildRepeatMatrix(participants, history, settings.avoidRecentRounds);
+  const fresh = eligible.map((row, g) => row.map((allowed, r) => allowed && !repeats[g][r]));
+  const countRepeats = (receiverOf: number[]) =>
+    receiverOf.filter((r, g) => repeats[g][r]).length;
+
+  // A preferred cross-group pair outweighs every possible repeat together
+  const prefersCrossGroup = settings.groupPolicy === 'prefer';
+  const sameGroupCost = participants.length * gifts + 1;
+  const cost = repeats.map((row, g) => row.map((isRepeat, r) =>
+    (isRepeat ? 1 : 0) + (prefersCrossGroup && sameGroup[g][r] ? sameGroupCost : 0)
+  ));
+
+  // The searches below only use costs to order their choices, so they try
+  // stricter graphs first: fresh pairs, then (soft policy) repeats too, and
+  // with preferred cross-group pairs all of that without same-group pairs first
+  const stages = settings.historyPolicy === 'soft' ? [fresh, eligible] : [fresh];
+  if (prefersCrossGroup) {
+    stages.unshift(...stages.map(stage =>
+      stage.map((row, g) => row.map((allowed, r) => allowed && !sameGroup[g][r]))
+    ));
+  }
+
+  if (gifts > 1) {
+    let receiversOf: number[][] | null = null;
+    for (const stage of stages) {
+      receiversOf = findRegularAssignment(stage, gifts, cost, rng);
+      if (receiversOf) break;
+    }
+
+    if (!receiversOf) {
+      console.error('No assignment satisfies the draw constraints');
+      return null;
     }
+
+    return {
+      assignments: toMultiAssignments(participants, receiversOf),
+      repeatedPairs: receiversOf
+        .flatMap((receivers, g) => receivers.filter(r => repeats[g][r]))
+        .length,
+    };
+  }
+
+  let receiverOf: number[] | null = null;
+  if (settings.mode === 'chain') {
+    // Still preferring cheaper pairs wherever the search has a choice
+    for (const stage of stages) {
+      receiverOf = findHamiltonianCycle(stage, cost, rng);
+      if (receiverOf) break;
+    }
+  } else if (settings.historyPolicy === 'hard' && !prefersCrossGroup) {
+    receiverOf = findPerfectMatching(fresh, rng);
+  } else {
+    receiverOf = findMinCostPerfectMatching(
+      settings.historyPolicy === 'hard' ? fresh : eligible,
+      cost,
+      rng
+    );
+  }
+
+  if (!receiverOf) {
+    console.error('No assignment satisfies the draw constraints');
+    return null;
+  }
+
+  return {
+    assignments: toAssignments(participants, receiverOf),
+    repeatedPairs: countRepeats(receiverOf),
+  };
+}
+
+/**
+ * Re-runs a seeded draw and checks it produces exactly the given assignments
+ * 
+ * @param history - Rounds that existed before the draw being checked
+ * @returns True if the replay matches pair for pair
+ */
+export function replayDraw(
+  participants: Participant[],
+  constraints: DrawConstraints,
+  settings: DrawSettings,
+  history: DrawRound[],
+  seed: string,
+  assignments: Assignment[]
+): boolean {
+  const outcome = drawAssignments(
+    participants,
+    constraints,
+    settings,
+    history,
+    createSeededRandom(seed)
+  );
+  if (!outcome || outcome.assignments.length !== assignments.length) {
+    return false;
   }
-  
-  // This should be extremely rare - only happens if we're very unlucky
-  console.error(`Failed to generate derangement after ${maxAttempts} attempts`);
-  return null;
+
+  const receiverOf = new Map(assignments.map(a => [a.giverId, a.receiverId]));
+  return outcome.assignments.every(a => receiverOf.get(a.giverId) === a.receiverId);
+}
+
+/**
+ * Checks that assignments form one cycle covering every giver
+ * Assumes the assignments are already a valid permutation
+ */
+export function isSingleCycle(assignments: Assignment[]): boolean {
+  if (assignments.length === 0) {
+    return false;
+  }
+
+  const receiverOf = new Map(assignments.map(a => [a.giverId, a.receiverId]));
+  const start = assignments[0].giverId;
+  let current = receiverOf.get(start);
+  let length = 1;
+
+  while (current !== undefined && current !== start) {
+    current = receiverOf.get(current);
+    length++;
+  }
+
+  return current === start && length === assignments.length;
 }
 
 /**
  * Validates that assignments form a valid derangement
+ * (or a valid k-regular assignment with several gifts per person)
  * Used to verify persisted data on load
  */
 export function validateAssignments(
   participants: Participant[],
-  assignments: Assignment[]
+  assignments: Assignment[],
+  constraints: DrawConstraints = EMPTY_CONSTRAINTS,
+  settings: DrawSettings = DEFAULT_DRAW_SETTINGS
 ): boolean {
+  const gifts = settings.giftsPerPerson;
+
   // Check we have the right number of assignments
-  if (assignments.length !== participants.length) {
+  if (assignments.length !== participants.length * gifts) {
     return false;
   }
 
   const participantIds = new Set(participants.map(p => p.id));
-  const giverIds = new Set<string>();
-  const receiverIds = new Set<string>();
+  const givenCount = new Map<string, number>();
+  const receivedCount = new Map<string, number>();
+  const pairs = new Set<string>();
 
   for (const assignment of assignments) {
     // Check both giver and receiver exist
@@ -113,16 +271,41 @@ export function validateAssignments(
       return false;
     }
 
-    // Check for duplicates
-    if (giverIds.has(assignment.giverId) || receiverIds.has(assignment.receiverId)) {
+    // Check for duplicate pairs
+    const pair = `${assignment.giverId}\u0000${assignment.receiverId}`;
+    if (pairs.has(pair)) {
       return false;
     }
+    pairs.add(pair);
+
+    givenCount.set(assignment.giverId, (givenCount.get(assignment.giverId) ?? 0) + 1);
+    receivedCount.set(assignment.receiverId, (receivedCount.get(assignment.receiverId) ?? 0) + 1);
+  }
 
-    giverIds.add(assignment.giverId);
-    receiverIds.add(assignment.receiverId);
+  // Check everyone gives and receives exactly k gifts
+  const isRegular = participants.every(p =>
+    givenCount.get(p.id) === gifts && receivedCount.get(p.id) === gifts
+  );
+  if (!isRegular) {
+    return false;
+  }
+
+  // Check no constrained pair slipped through
+  if (!satisfiesConstraints(assignments, constraints)) {
+    return false;
+  }
+
+  // Check gifts cross groups when that is required
+  if (settings.groupPolicy === 'require') {
+    const byId = new Map(participants.map(p => [p.id, p]));
+    const crossesGroups = assignments.every(a =>
+      !isSameGroup(byId.get(a.giverId)!, byId.get(a.receiverId)!)
+    );
+    if (!crossesGroups) {
+      return false;
+    }
   }
 
-  // Check everyone is both a giver and receiver
-  return giverIds.size === participants.length && 
-         receiverIds.size === participants.length;
+  // Chain mode must be one loop, not several smaller ones
+  return settings.mode !== 'chain' || isSingleCycle(assignments);
 }
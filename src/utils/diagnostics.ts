@@ -0,0 +1,175 @@
+/**
+ * Draw infeasibility diagnostics
+ *
+ * When no valid draw exists, Hall's theorem guarantees a group of people who
+ * together have fewer eligible partners than members. We find the smallest
+ * such group (on the giver or receiver side), then rank the rules that block
+ * the group's missing pairs so the organizer knows what to relax.
+ *
+ * In chain mode a draw can also fail when pairs exist but no single cycle
+ * does; that case is reported without a group.
+ *
+ * With the hard "no repeats" policy, pairs from recent rounds are blocked
+ * too and show up as a single 'history' suggestion. Likewise, pairs blocked by
+ * the cross-group requirement show up as a single 'group' suggestion.
+ *
+ * With k gifts per person, anyone with fewer than k possible partners is
+ * reported first; other k-regular failures are reported without a group.
+ */
+
+import type {
+  Participant,
+  DrawConstraints,
+  DrawSettings,
+  DrawRound,
+  DrawDiagnostic,
+  RelaxSuggestion,
+} from '../types';
+import { buildEligibilityMatrix, findBlockingRules } from './constraints';
+import { buildRepeatMatrix } from './history';
+import { buildSameGroupMatrix } from './groups';
+import {
+  findDeficientGroup,
+  findHamiltonianCycle,
+  findRegularAssignment,
+} from './matching';
+
+// Suggestion id used for the "no repeats" setting
+export const HISTORY_RULE_ID = 'history';
+
+// Suggestion id used for the cross-group requirement
+export const GROUP_RULE_ID = 'group';
+
+// A group of givers (or receivers) with too few partners
+interface Witness {
+  side: 'givers' | 'receivers';
+  group: number[];
+}
+
+/**
+ * Finds the tightest Hall's theorem violation on either side
+ */
+function findHallWitness(eligible: boolean[][], transposed: boolean[][]): Witness | null {
+  const giverGroup = findDeficientGroup(eligible);
+  if (!giverGroup) {
+    return null;
+  }
+
+  // The same problem seen from the receiver side is often far smaller
+  // (e.g. one person nobody may draw), so keep whichever group is tighter
+  const receiverGroup = findDeficientGroup(transposed) ?? giverGroup;
+  return receiverGroup.length < giverGroup.length
+    ? { side: 'receivers', group: receiverGroup }
+    : { side: 'givers', group: giverGroup };
+}
+
+/**
+ * Finds a single person with fewer than k possible partners
+ */
+function findLowDegreeWitness(
+  eligible: boolean[][],
+  transposed: boolean[][],
+  k: number
+): Witness | null {
+  const degree = (row: boolean[]) => row.filter(Boolean).length;
+
+  const giver = eligible.findIndex(row => degree(row) < k);
+  if (giver !== -1) {
+    return { side: 'givers', group: [giver] };
+  }
+
+  const receiver = transposed.findIndex(row => degree(row) < k);
+  return receiver !== -1 ? { side: 'receivers', group: [receiver] } : null;
+}
+
+/**
+ * Explains why the participants cannot be drawn under the constraints
+ *
+ * @returns A diagnostic, or null if a valid draw exists
+ */
+export function diagnoseDraw(
+  participants: Participant[],
+  constraints: DrawConstraints,
+  settings: DrawSettings,
+  history: DrawRound[] = []
+): DrawDiagnostic | null {
+  // Soft repeat avoidance never makes a draw impossible
+  const repeats = settings.historyPolicy === 'hard'
+    ? buildRepeatMatrix(participants, history, settings.avoidRecentRounds)
+    : participants.map(() => participants.map(() => false));
+  // Preferred cross-group pairs never make a draw impossible either
+  const sameGroup = settings.groupPolicy === 'require'
+    ? buildSameGroupMatrix(participants)
+    : participants.map(() => participants.map(() => false));
+  const eligible = buildEligibilityMatrix(participants, constraints)
+    .map((row, g) => row.map((allowed, r) =>
+      allowed && !repeats[g][r] && !sameGroup[g][r]
+    ));
+  const transposed = eligible.map((_, r) => eligible.map(row => row[r]));
+  const gifts = settings.giftsPerPerson;
+
+  const witness = (gifts > 1 ? findLowDegreeWitness(eligible, transposed, gifts) : null) ??
+    findHallWitness(eligible, transposed);
+
+  if (!witness) {
+    const structureFails =
+      (settings.mode === 'chain' && !findHamiltonianCycle(eligible)) ||
+      (gifts > 1 && !findRegularAssignment(eligible, gifts));
+    if (structureFails) {
+      return {
+        side: settings.mode === 'chain' ? 'chain' : 'gifts',
+        participantIds: [],
+        candidateIds: [],
+        suggestions: [],
+      };
+    }
+    return null;
+  }
+
+  const { side, group } = witness;
+  const matrix = side === 'givers' ? eligible : transposed;
+
+  const candidates = participants
+    .map((_, other) => other)
+    .filter(other => group.some(member => matrix[member][other]));
+
+  // Every other pairing of a group member is blocked by some rule
+  const blockedCounts = new Map<string, RelaxSuggestion>();
+  const countRule = (kind: RelaxSuggestion['kind'], ruleId: string) => {
+    const existing = blockedCounts.get(ruleId);
+    if (existing) {
+      existing.blockedPairs++;
+    } else {
+      blockedCounts.set(ruleId, { kind, ruleId, blockedPairs: 1 });
+    }
+  };
+
+  for (const member of group) {
+    participants.forEach((other, index) => {
+      if (index === member || candidates.includes(index)) return;
+
+      const [giver, receiver] = side === 'givers'
+        ? [participants[member], other]
+        : [other, participants[member]];
+      const [g, r] = side === 'givers' ? [member, index] : [index, member];
+      if (repeats[g][r]) {
+        countRule('history', HISTORY_RULE_ID);
+      }
+      if (sameGroup[g][r]) {
+        countRule('group', GROUP_RULE_ID);
+      }
+      const rules = findBlockingRules(giver.id, receiver.id, constraints);
+      rules.exclusionIds.forEach(id => countRule('exclusion', id));
+      rules.householdIds.forEach(id => countRule('household', id));
+    });
+  }
+
+  return {
+    side,
+    participantIds: group.map(index => participants[index].id),
+    candidateIds: candidates.map(index => participants[index].id),
+    suggestions: [...blockedCounts.values()].sort(
+      (a, b) => b.blockedPairs - a.blockedPairs
+    ),
+  };
+}
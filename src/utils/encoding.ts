@@ -0,0 +1,39 @@
+/**
+ * Byte encoding helpers shared by the crypto and share utilities
+ */
+
+/**
+ * Encodes bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return [...bytes].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Decodes hex (either case); throws if malformed
+ */
+export function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  return Uint8Array.from(hex.match(/.{2}/g) ?? [], byte => parseInt(byte, 16));
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 (padding optional); throws if malformed
+ */
+export function base64UrlToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
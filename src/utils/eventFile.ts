@@ -0,0 +1,285 @@
+/**
+ * Event files
+ *
+ * An event can be saved to a file and opened again, here or on another
+ * device: the whole event as JSON (a backup before a reset, or a move), or
+ * just its participants as CSV, to prepare the list in a spreadsheet.
+ *
+ * The JSON file carries the same versioned state document as storage (see
+ * stateSchema.ts), so older files are migrated and every field is checked
+ * the same way.
+ */
+
+import type {
+  Participant,
+  ParticipantImportMode,
+  ParticipantImportPreview,
+  ParticipantImportRow,
+} from '../types';
+import {
+  type StoredEventState,
+  STATE_SCHEMA_VERSION,
+  readStateDocument,
+} from './stateSchema';
+import { MAX_EVENT_NAME_LENGTH, parseJson } from './storage';
+import { MAX_JOIN_NAME_LENGTH, MAX_WISHLIST_LENGTH } from './join';
+import { MAX_GROUP_LENGTH } from './groups';
+
+const EVENT_FILE_FORMAT = 'secretsanta-event';
+
+// Bigger files are refused before they are read
+export const MAX_IMPORT_FILE_BYTES = 1_000_000;
+
+const CSV_HEADER = ['Ad', 'Grup', 'Dilek Listesi'];
+
+// Header cells recognised in imported CSV files, lower case
+const NAME_HEADERS = ['ad', 'isim', 'ad soyad', 'katılımcı', 'name'];
+const GROUP_HEADERS = ['grup', 'ekip', 'departman', 'group'];
+const WISHLIST_HEADERS = ['dilek listesi', 'dilek', 'wishlist'];
+
+export interface EventFile {
+  // Name of the event it was exported from
+  name: string;
+  exportedAt: string; // ISO timestamp
+  state: StoredEventState;
+}
+
+/**
+ * Writes an event as a JSON file. The organizer password and an open
+ * registration stay with this device's event.
+ */
+export function createEventFile(name: string, state: StoredEventState): string {
+  return JSON.stringify({
+    format: EVENT_FILE_FORMAT,
+    version: STATE_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    state: { ...state, organizerLock: null, joinCode: null, handledJoinNames: [] },
+  }, null, 2);
+}
+
+/**
+ * Reads an event file; null when it isn't one, or can't be used
+ */
+export function parseEventFile(text: string): EventFile | null {
+  const file = parseJson(text);
+  if (!file || typeof file !== 'object' || !('format' in file) ||
+      file.format !== EVENT_FILE_FORMAT) {
+    return null;
+  }
+
+  // Migrated and validated like a stored document
+  const state = readStateDocument(file);
+  if (!state) {
+    return null;
+  }
+  return {
+    name: 'name' in file && typeof file.name === 'string'
+      ? file.name.trim().slice(0, MAX_EVENT_NAME_LENGTH)
+      : '',
+    exportedAt: 'exportedAt' in file && typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    state: { ...state, organizerLock: null, joinCode: null, handledJoinNames: [] },
+  };
+}
+
+/**
+ * Quotes a CSV cell when needed. Cells that a spreadsheet would run as a
+ * formula are prefixed with an apostrophe.
+ */
+function escapeCsvCell(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",;\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Writes the participant list as CSV. It starts with a byte order mark so
+ * spreadsheets read Turkish letters right.
+ */
+export function participantsToCsv(participants: Participant[]): string {
+  const rows = [
+    CSV_HEADER,
+    ...participants.map(p => [p.name, p.group ?? '', p.wishlist ?? '']),
+  ];
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Splits CSV text into rows of cells. Spreadsheets set to Turkish save with
+ * semicolons, so the delimiter is whichever the first line uses more.
+ */
+function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Reads participants from CSV: a name per row, then optionally a group and
+ * a wishlist. A header row, if there is one, may put them in any order.
+ *
+ * @returns the usable rows, and how many were skipped (too long, or a name
+ * already in the file)
+ */
+export function parseParticipantCsv(text: string): { rows: ParticipantImportRow[]; invalid: number } {
+  // The apostrophe participantsToCsv puts before formula-like cells goes
+  const table = parseCsv(text)
+    .map(cells => cells.map(cell => cell.trim().replace(/^'(?=[=+\-@])/, '')))
+    .filter(cells => cells.some(cell => cell !== ''));
+  if (table.length === 0) {
+    return { rows: [], invalid: 0 };
+  }
+
+  const header = table[0].map(cell => cell.toLocaleLowerCase('tr-TR'));
+  const hasHeader = NAME_HEADERS.includes(header[0]) ||
+    header.some(cell => GROUP_HEADERS.includes(cell) || WISHLIST_HEADERS.includes(cell));
+  const column = (names: string[], fallback: number) => {
+    const index = hasHeader ? header.findIndex(cell => names.includes(cell)) : -1;
+    return index >= 0 ? index : fallback;
+  };
+  const nameColumn = column(NAME_HEADERS, 0);
+  const groupColumn = column(GROUP_HEADERS, hasHeader ? -1 : 1);
+  const wishlistColumn = column(WISHLIST_HEADERS, hasHeader ? -1 : 2);
+
+  const rows: ParticipantImportRow[] = [];
+  const seen = new Set<string>();
+  let invalid = 0;
+  for (const cells of hasHeader ? table.slice(1) : table) {
+    const name = cells[nameColumn] ?? '';
+    const group = cells[groupColumn] ?? '';
+    const wishlist = cells[wishlistColumn] ?? '';
+    if (!name || name.length > MAX_JOIN_NAME_LENGTH || group.length > MAX_GROUP_LENGTH ||
+        wishlist.length > MAX_WISHLIST_LENGTH || seen.has(name.toLowerCase())) {
+      invalid++;
+      continue;
+    }
+    seen.add(name.toLowerCase());
+    rows.push({
+      name,
+      ...(group ? { group } : {}),
+      ...(wishlist ? { wishlist } : {}),
+    });
+  }
+  return { rows, invalid };
+}
+
+/**
+ * Applies imported rows to the participant list. Names match
+ * case-insensitively; when merging, an empty cell keeps what is there.
+ *
+ * @returns the new list, and what changed by name
+ */
+export function applyParticipantImport(
+  current: Participant[],
+  rows: ParticipantImportRow[],
+  mode: ParticipantImportMode,
+  createId: () => string
+): { participants: Participant[]; preview: ParticipantImportPreview } {
+  const preview: ParticipantImportPreview = { added: [], updated: [], removed: [], unchanged: [] };
+  const byName = new Map(current.map(p => [p.name.toLowerCase(), p]));
+  const imported = new Map<string, Participant>();
+
+  for (const row of rows) {
+    const existing = byName.get(row.name.toLowerCase());
+    if (!existing) {
+      preview.added.push(row.name);
+      imported.set(row.name.toLowerCase(), { id: createId(), ...row });
+      continue;
+    }
+
+    const group = mode === 'merge' ? row.group ?? existing.group : row.group;
+    const wishlist = mode === 'merge' ? row.wishlist ?? existing.wishlist : row.wishlist;
+    if (group === existing.group && wishlist === existing.wishlist) {
+      preview.unchanged.push(existing.name);
+      imported.set(row.name.toLowerCase(), existing);
+      continue;
+    }
+    preview.updated.push(existing.name);
+    imported.set(row.name.toLowerCase(), {
+      id: existing.id,
+      name: existing.name,
+      ...(group ? { group } : {}),
+      ...(wishlist ? { wishlist } : {}),
+    });
+  }
+
+  // Everyone keeps their place; new names go at the end
+  const participants: Participant[] = [];
+  for (const participant of current) {
+    const updated = imported.get(participant.name.toLowerCase());
+    if (updated) {
+      participants.push(updated);
+      imported.delete(participant.name.toLowerCase());
+    } else if (mode === 'merge') {
+      participants.push(participant);
+    } else {
+      preview.removed.push(participant.name);
+    }
+  }
+  participants.push(...imported.values());
+
+  return { participants, preview };
+}
+
+/**
+ * File name for an event's export, e.g. "ofis-cekilisi-2025-12-01.json"
+ */
+export function getExportFileName(eventName: string, extension: 'json' | 'csv'): string {
+  const slug = eventName
+    .toLocaleLowerCase('tr-TR')
+    .replace(/ç/g, 'c').replace(/ğ/g, 'g').replace(/ı/g, 'i')
+    .replace(/ö/g, 'o').replace(/ş/g, 's').replace(/ü/g, 'u')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'cekilis';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Saves text as a file through the browser's download
+ */
+export function downloadTextFile(fileName: string, text: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,56 @@
+/**
+ * Participant group utilities
+ * Optional teams or departments used by the cross-group draw
+ */
+
+import type { Participant } from '../types';
+
+// Longest group name the organizer may type
+export const MAX_GROUP_LENGTH = 30;
+
+/**
+ * Normalized key for a group name ('' = no group)
+ */
+function groupKey(participant: Participant): string {
+  return participant.group?.trim().toLowerCase() ?? '';
+}
+
+/**
+ * Checks whether two participants belong to the same group
+ * People without a group never share one with anybody
+ */
+export function isSameGroup(a: Participant, b: Participant): boolean {
+  const key = groupKey(a);
+  return key !== '' && key === groupKey(b);
+}
+
+/**
+ * Builds a giver x receiver matrix marking same-group pairs
+ */
+export function buildSameGroupMatrix(participants: Participant[]): boolean[][] {
+  return participants.map(giver =>
+    participants.map(receiver => isSameGroup(giver, receiver))
+  );
+}
+
+/**
+ * Lists the distinct group names in first-seen order
+ * Spelling of the first member wins when names differ only in case
+ */
+export function listGroups(participants: Participant[]): string[] {
+  const groups = new Map<string, string>();
+  for (const participant of participants) {
+    const key = groupKey(participant);
+    if (key && !groups.has(key)) {
+      groups.set(key, participant.group!.trim());
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Checks whether a participant belongs to the named group
+ */
+export function isInGroup(participant: Participant, group: string): boolean {
+  return groupKey(participant) === group.trim().toLowerCase();
+}
@@ -0,0 +1,100 @@
+/**
+ * Draw history utilities
+ * Keeps past rounds so the same giver -> receiver pairs don't keep coming back
+ */
+
+import type { Participant, Assignment, DrawRound, DrawChange } from '../types';
+
+/**
+ * Normalized key for a pair of names (names are unique case-insensitively)
+ */
+function pairKey(giverName: string, receiverName: string): string {
+  return `${giverName.toLowerCase()}\u0000${receiverName.toLowerCase()}`;
+}
+
+/**
+ * Builds a giver x receiver matrix marking pairs drawn in the last rounds
+ *
+ * @param participants - Current participants, in matrix order
+ * @param history - Past rounds, oldest first
+ * @param rounds - How many of the most recent rounds to look at
+ */
+export function buildRepeatMatrix(
+  participants: Participant[],
+  history: DrawRound[],
+  rounds: number
+): boolean[][] {
+  const recent = new Set(
+    history
+      .slice(Math.max(history.length - rounds, 0))
+      .flatMap(round => round.pairings)
+      .map(p => pairKey(p.giverName, p.receiverName))
+  );
+
+  return participants.map(giver =>
+    participants.map(receiver => recent.has(pairKey(giver.name, receiver.name)))
+  );
+}
+
+/**
+ * Creates a history entry for a finished draw
+ */
+export function createRound(
+  id: string,
+  participants: Participant[],
+  assignments: Assignment[],
+  repeatedPairs: number,
+  record: Pick<DrawRound, 'algorithmVersion' | 'seed'>
+): DrawRound {
+  const nameOf = (participantId: string) =>
+    participants.find(p => p.id === participantId)?.name ?? '';
+
+  return {
+    id,
+    drawnAt: new Date().toISOString(),
+    pairings: assignments.map(a => ({
+      giverName: nameOf(a.giverId),
+      receiverName: nameOf(a.receiverId),
+    })),
+    repeatedPairs,
+    ...record,
+  };
+}
+
+/**
+ * Records a change to a finished draw in its history entry
+ * Pairings are rebuilt so later rounds avoid the pairs actually drawn
+ */
+export function amendRound(
+  round: DrawRound,
+  participants: Participant[],
+  assignments: Assignment[],
+  change: DrawChange
+): DrawRound {
+  const nameOf = (participantId: string) =>
+    participants.find(p => p.id === participantId)?.name ?? '';
+
+  return {
+    ...round,
+    pairings: assignments.map(a => ({
+      giverName: nameOf(a.giverId),
+      receiverName: nameOf(a.receiverId),
+    })),
+    changes: [...(round.changes ?? []), change],
+  };
+}
+
+/**
+ * Runtime shape check for history coming from storage
+ */
+export function isValidHistory(value: unknown): value is DrawRound[] {
+  return Array.isArray(value) && value.every(round =>
+    typeof round?.id === 'string' &&
+    typeof round?.drawnAt === 'string' &&
+    typeof round?.repeatedPairs === 'number' &&
+    Array.isArray(round?.pairings) &&
+    round.pairings.every((p: Partial<DrawRound['pairings'][number]>) =>
+      typeof p?.giverName === 'string' && typeof p?.receiverName === 'string'
+    )
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * Stored state integrity utilities
+ *
+ * Everything the organizer controls (participants, rules, the draw and its
+ * commitment) is signed with an ECDSA key. Its private half is stored only
+ * encrypted with a key derived from the organizer password, so nothing on
+ * the device can sign without the password: editing those values in
+ * devtools breaks the signature, and the app shows a warning instead of
+ * using them.
+ *
+ * So the check can run on load, before anyone types a password, the public
+ * half is also kept on this device in IndexedDB; it can only verify.
+ * Someone who swaps it along with the signature gets past that check, but
+ * not the organizer's: unlocking decrypts the real key and checks again.
+ * Without the public key (cleared site data, or removed by hand) the data
+ * counts as changed until the organizer unlocks and checks it.
+ */
+
+import type {
+  Participant,
+  Assignment,
+  DrawConstraints,
+  DrawSettings,
+  DrawRound,
+  DrawCommitment,
+  OrganizerLock,
+  IntegrityRecord,
+} from '../types';
+import { bytesToHex, hexToBytes } from './encoding';
+import { DEFAULT_EVENT_ID } from './storage';
+
+const KEY_DERIVATION_ITERATIONS = 200_000;
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+const KEY_DB_NAME = 'secretsanta_keys';
+const KEY_STORE_NAME = 'keys';
+const INTEGRITY_KEY_ID = 'integrity';
+
+// An event's signing keys, once the organizer password opened them
+export interface IntegrityKeys {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  // The private key as stored, encrypted with the password
+  wrapped: Omit<IntegrityRecord, 'signature'>;
+}
+
+// The organizer-controlled part of the state; participants' own actions
+// (PINs, reveals) happen while organizer mode is locked and are not signed
+export interface SignedState {
+  participants: Participant[];
+  assignments: Assignment[];
+  constraints: DrawConstraints;
+  settings: DrawSettings;
+  history: DrawRound[];
+  commitment: DrawCommitment | null;
+  commitmentSalts: Record<string, string>;
+  organizerLock: OrganizerLock | null;
+  isDrawComplete: boolean;
+}
+
+/**
+ * Picks the signed fields out of a state
+ */
+export function pickSignedState(state: SignedState): SignedState {
+  return {
+    participants: state.participants,
+    assignments: state.assignments,
+    constraints: state.constraints,
+    settings: state.settings,
+    history: state.history,
+    commitment: state.commitment,
+    commitmentSalts: state.commitmentSalts,
+    organizerLock: state.organizerLock,
+    isDrawComplete: state.isDrawComplete,
+  };
+}
+
+/**
+ * Whether any signed field changed between two states
+ * (the store replaces values on change, so references are enough)
+ */
+export function hasSignedChange(state: SignedState, previous: SignedState): boolean {
+  const current = pickSignedState(state);
+  const before = pickSignedState(previous);
+  return (Object.keys(current) as (keyof SignedState)[]).some(
+    field => current[field] !== before[field]
+  );
+}
+
+/**
+ * JSON with object keys sorted, so equal states always sign the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Derives the key that encrypts the signing key from the organizer
+ * password. The salt differs from the password hash's, so the stored hash
+ * says nothing about it.
+ */
+async function deriveWrappingKey(password: string, salt: string): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: hexToBytes(salt), iterations: KEY_DERIVATION_ITERATIONS },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Imports both halves of a signing key from its JWK; the private half
+ * can't be exported again
+ */
+async function importSigningKeys(jwk: JsonWebKey): Promise<Pick<IntegrityKeys, 'privateKey' | 'publicKey'>> {
+  const [privateKey, publicKey] = await Promise.all([
+    crypto.subtle.importKey('jwk', jwk, SIGNING_ALGORITHM, false, ['sign']),
+    crypto.subtle.importKey(
+      'jwk',
+      { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+      SIGNING_ALGORITHM,
+      true,
+      ['verify']
+    ),
+  ]);
+  return { privateKey, publicKey };
+}
+
+/**
+ * Creates a new event's signing key, encrypted with the organizer password
+ */
+export async function createIntegrityKeys(password: string): Promise<IntegrityKeys> {
+  const salt = bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const [generated, wrappingKey] = await Promise.all([
+    crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']),
+    deriveWrappingKey(password, salt),
+  ]);
+
+  const jwk = await crypto.subtle.exportKey('jwk', generated.privateKey);
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    wrappingKey,
+    new TextEncoder().encode(JSON.stringify(jwk))
+  );
+  return {
+    ...await importSigningKeys(jwk),
+    wrapped: { salt, iv: bytesToHex(iv), wrappedKey: bytesToHex(new Uint8Array(wrappedKey)) },
+  };
+}
+
+/**
+ * Decrypts an event's signing key with the organizer password
+ *
+ * @returns null for a wrong password, or a key that was tampered with
+ */
+export async function unwrapIntegrityKeys(
+  password: string,
+  record: IntegrityRecord
+): Promise<IntegrityKeys | null> {
+  try {
+    const wrappingKey = await deriveWrappingKey(password, record.salt);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: hexToBytes(record.iv) },
+      wrappingKey,
+      hexToBytes(record.wrappedKey)
+    );
+    const jwk = JSON.parse(new TextDecoder().decode(decrypted)) as JsonWebKey;
+    return {
+      ...await importSigningKeys(jwk),
+      wrapped: { salt: record.salt, iv: record.iv, wrappedKey: record.wrappedKey },
+    };
+  } catch {
+    // AES-GCM refuses anything but the right key on the untouched data
+    return null;
+  }
+}
+
+/**
+ * Signature of the signed state, as hex
+ */
+export async function signState(privateKey: CryptoKey, state: SignedState): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_PARAMS,
+    privateKey,
+    new TextEncoder().encode(canonicalJson(pickSignedState(state)))
+  );
+  return bytesToHex(new Uint8Array(signature));
+}
+
+/**
+ * Checks the signed state against its stored signature
+ */
+export async function verifyStateSignature(
+  publicKey: CryptoKey,
+  state: SignedState,
+  signature: string
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      SIGNATURE_PARAMS,
+      publicKey,
+      hexToBytes(signature),
+      new TextEncoder().encode(canonicalJson(pickSignedState(state)))
+    );
+  } catch (error) {
+    console.error('Failed to verify state signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Opens the IndexedDB database holding the device's integrity key
+ */
+function openKeyDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(KEY_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs one request against the key store
+ */
+async function withKeyStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openKeyDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Id of an event's key in the key store; every event has its own password,
+ * and the default event keeps the plain id
+ */
+function integrityKeyId(eventId: string): string {
+  return eventId === DEFAULT_EVENT_ID ? INTEGRITY_KEY_ID : `${INTEGRITY_KEY_ID}__${eventId}`;
+}
+
+/**
+ * Loads the public key this device checks an event's signature with, if
+ * it has one
+ */
+export async function loadDeviceIntegrityKey(eventId: string): Promise<CryptoKey | null> {
+  try {
+    const key: unknown = await withKeyStore('readonly', store => store.get(integrityKeyId(eventId)));
+    return key instanceof CryptoKey ? key : null;
+  } catch (error) {
+    console.error('Failed to load the integrity key:', error);
+    return null;
+  }
+}
+
+/**
+ * Keeps an event's public key on this device for checks on load
+ */
+export async function saveDeviceIntegrityKey(eventId: string, publicKey: CryptoKey): Promise<void> {
+  try {
+    await withKeyStore('readwrite', store => store.put(publicKey, integrityKeyId(eventId)));
+  } catch (error) {
+    console.error('Failed to save the integrity key:', error);
+  }
+}
+
+/**
+ * Forgets this device's integrity key of an event
+ */
+export async function clearDeviceIntegrityKey(eventId: string): Promise<void> {
+  try {
+    await withKeyStore('readwrite', store => store.delete(integrityKeyId(eventId)));
+  } catch (error) {
+    console.error('Failed to clear the integrity key:', error);
+  }
+}
+
+/**
+ * Runtime shape check for the signature record coming from storage
+ */
+export function isValidIntegrityRecord(value: unknown): value is IntegrityRecord {
+  return value !== null && typeof value === 'object' &&
+    'salt' in value && typeof value.salt === 'string' && /^[0-9a-f]{32}$/.test(value.salt) &&
+    'iv' in value && typeof value.iv === 'string' && /^[0-9a-f]{24}$/.test(value.iv) &&
+    'wrappedKey' in value && typeof value.wrappedKey === 'string' &&
+    /^(?:[0-9a-f]{2})+$/.test(value.wrappedKey) &&
+    'signature' in value && typeof value.signature === 'string' &&
+    /^[0-9a-f]{128}$/.test(value.signature);
+}
+
@@ -0,0 +1,129 @@
+/**
+ * Self-registration utilities
+ *
+ * The organizer opens registration with a short join code; participants
+ * open the join link (?katil=CODE) and enter their own name and wishlist.
+ * Registrations reach the organizer through a join transport, or, fully
+ * offline, as join tokens people copy and send to the organizer, who
+ * pastes them into the setup screen.
+ */
+
+import type { JoinRequest } from '../types';
+import { base64UrlToBytes, bytesToBase64Url } from './encoding';
+
+export const JOIN_CODE_LENGTH = 6;
+export const MAX_JOIN_NAME_LENGTH = 30;
+export const MAX_WISHLIST_LENGTH = 300;
+
+// No 0/O, 1/I/L: codes get read out loud and typed on phones
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const JOIN_TOKEN_PREFIX = 'KATIL-';
+const JOIN_TOKEN_PATTERN = /KATIL-[A-Za-z0-9_-]+/g;
+
+/**
+ * Creates a random join code
+ */
+export function createJoinCode(): string {
+  return Array.from(
+    crypto.getRandomValues(new Uint32Array(JOIN_CODE_LENGTH)),
+    value => JOIN_CODE_ALPHABET[value % JOIN_CODE_ALPHABET.length]
+  ).join('');
+}
+
+/**
+ * Tidies a typed code: upper case, no spaces or dashes
+ */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Whether a code has the shape createJoinCode produces
+ */
+export function isValidJoinCode(code: string): boolean {
+  return code.length === JOIN_CODE_LENGTH &&
+    [...code].every(char => JOIN_CODE_ALPHABET.includes(char));
+}
+
+/**
+ * Trims a registration and checks it; null when it can't be used
+ */
+export function normalizeJoinRequest(value: unknown): JoinRequest | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { code, name, wishlist } = value as Partial<Record<keyof JoinRequest, unknown>>;
+  if (typeof code !== 'string' || typeof name !== 'string') {
+    return null;
+  }
+
+  const trimmedName = name.trim();
+  const trimmedWishlist = typeof wishlist === 'string' ? wishlist.trim() : '';
+  if (!isValidJoinCode(code) || !trimmedName || trimmedName.length > MAX_JOIN_NAME_LENGTH ||
+      trimmedWishlist.length > MAX_WISHLIST_LENGTH) {
+    return null;
+  }
+
+  return {
+    code,
+    name: trimmedName,
+    ...(trimmedWishlist ? { wishlist: trimmedWishlist } : {}),
+  };
+}
+
+/**
+ * Join link for a code, opened by participants
+ */
+export function getJoinUrl(code: string): string {
+  return `${window.location.origin}${window.location.pathname}?katil=${code}`;
+}
+
+/**
+ * Writes a registration as a token to send to the organizer
+ */
+export function encodeJoinToken(request: JoinRequest): string {
+  const json = JSON.stringify([request.code, request.name, request.wishlist ?? '']);
+  return JOIN_TOKEN_PREFIX + bytesToBase64Url(new TextEncoder().encode(json));
+}
+
+/**
+ * Reads one token; null when it is malformed
+ */
+export function decodeJoinToken(token: string): JoinRequest | null {
+  try {
+    if (!token.startsWith(JOIN_TOKEN_PREFIX)) {
+      return null;
+    }
+    const json = new TextDecoder('utf-8', { fatal: true })
+      .decode(base64UrlToBytes(token.slice(JOIN_TOKEN_PREFIX.length)));
+    const data: unknown = JSON.parse(json);
+    if (!Array.isArray(data) || data.length !== 3) {
+      return null;
+    }
+    const [code, name, wishlist] = data;
+    return normalizeJoinRequest({ code, name, wishlist });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds every token in pasted text (a chat export, a list, ...)
+ *
+ * @returns The readable registrations and how many tokens were not
+ */
+export function parseJoinTokens(text: string): { requests: JoinRequest[]; invalid: number } {
+  const requests: JoinRequest[] = [];
+  let invalid = 0;
+  for (const token of text.match(JOIN_TOKEN_PATTERN) ?? []) {
+    const request = decodeJoinToken(token);
+    if (request) {
+      requests.push(request);
+    } else {
+      invalid++;
+    }
+  }
+  return { requests, invalid };
+}
@@ -0,0 +1,99 @@
+/**
+ * Join transports
+ *
+ * How a registration gets from a participant's device to the organizer.
+ * With VITE_SYNC_URL set, the bundled server (server/sync-server.js)
+ * relays them live. Otherwise, and whenever the server can't be reached,
+ * the participant gets a join token to send to the organizer instead.
+ */
+
+import type { JoinRequest } from '../types';
+import { encodeJoinToken, normalizeJoinRequest } from './join';
+
+// 'delivered': the organizer will receive it; otherwise the participant
+// sends the token to the organizer themselves
+export type JoinSubmitResult =
+  | { delivered: true }
+  | { delivered: false; token: string };
+
+export interface JoinTransport {
+  // Whether registrations arrive by themselves (the organizer still
+  // accepts pasted tokens either way)
+  isLive: boolean;
+  submit: (request: JoinRequest) => Promise<JoinSubmitResult>;
+  // Organizer side: every registration for the code so far, then each
+  // update. Returns a function that stops listening.
+  subscribe: (code: string, onRequests: (requests: JoinRequest[]) => void) => () => void;
+}
+
+/**
+ * Fully offline: every registration becomes a token
+ */
+export function createTokenJoinTransport(): JoinTransport {
+  return {
+    isLive: false,
+    submit: async request => ({ delivered: false, token: encodeJoinToken(request) }),
+    subscribe: () => () => {},
+  };
+}
+
+/**
+ * Talks to the bundled server, falling back to a token when it can't
+ *
+ * @param baseUrl - Server address, e.g. "http://localhost:8787"
+ */
+export function createServerJoinTransport(baseUrl: string): JoinTransport {
+  const codeUrl = (code: string) =>
+    `${baseUrl.replace(/\/+$/, '')}/join/${encodeURIComponent(code)}`;
+
+  return {
+    isLive: true,
+    submit: async request => {
+      try {
+        const response = await fetch(codeUrl(request.code), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: request.name, wishlist: request.wishlist ?? '' }),
+        });
+        if (response.ok) {
+          return { delivered: true };
+        }
+        console.error('Join server rejected a registration:', response.status);
+      } catch (error) {
+        console.error('Failed to reach the join server:', error);
+      }
+      return { delivered: false, token: encodeJoinToken(request) };
+    },
+    subscribe: (code, onRequests) => {
+      const source = new EventSource(`${codeUrl(code)}/events`);
+      source.onmessage = (event: MessageEvent<string>) => {
+        try {
+          const data: unknown = JSON.parse(event.data);
+          const registrations = data !== null && typeof data === 'object' &&
+            'requests' in data && Array.isArray(data.requests)
+            ? data.requests
+            : [];
+          onRequests(registrations
+            .map(registration => normalizeJoinRequest({ ...registration, code }))
+            .filter((request): request is JoinRequest => request !== null));
+        } catch (error) {
+          console.error('Invalid message from join server:', error);
+        }
+      };
+      return () => source.close();
+    },
+  };
+}
+
+let transport: JoinTransport | null = null;
+
+/**
+ * The app's join transport, picked once from the build configuration
+ */
+export function getJoinTransport(): JoinTransport {
+  if (!transport) {
+    const syncUrl: string | undefined = import.meta.env.VITE_SYNC_URL;
+    transport = syncUrl ? createServerJoinTransport(syncUrl) : createTokenJoinTransport();
+  }
+  return transport;
+}
@@ -0,0 +1,436 @@
+/**
+ * Bipartite matching helpers for the draw engine
+ *
+ * Givers and receivers are addressed by index: `eligible[g][r]` tells whether
+ * giver g may buy a gift for receiver r. The helpers know nothing about
+ * participants or constraints, which keeps them easy to reason about.
+ *
+ * Every helper takes a RandomSource so a seeded draw replays exactly.
+ */
+
+import { cryptoRandom, type RandomSource } from './random';
+
+/**
+ * Shuffles an array using Fisher-Yates algorithm
+ * Creates a new array, doesn't mutate the original
+ */
+export function shuffle<T>(array: T[], rng: RandomSource = cryptoRandom): T[] {
+  const result = [...array];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(rng.next() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Computes a maximum matching with Kuhn's augmenting path algorithm
+ *
+ * Giver order and each giver's receiver list are shuffled, so repeated calls
+ * produce different matchings.
+ *
+ * @returns The receiver index for every giver (-1 when left unmatched)
+ */
+export function findMaximumMatching(
+  eligible: boolean[][],
+  rng: RandomSource = cryptoRandom
+): number[] {
+  const n = eligible.length;
+  const adjacency = eligible.map(row =>
+    shuffle(row.flatMap((allowed, receiver) => (allowed ? [receiver] : [])), rng)
+  );
+  // ownerOf[r] is the giver currently holding receiver r (-1 = free)
+  const ownerOf = new Array<number>(n).fill(-1);
+
+  const tryAssign = (giver: number, visited: boolean[]): boolean => {
+    for (const receiver of adjacency[giver]) {
+      if (visited[receiver]) continue;
+      visited[receiver] = true;
+
+      // Take a free receiver, or move its current owner elsewhere
+      if (ownerOf[receiver] === -1 || tryAssign(ownerOf[receiver], visited)) {
+        ownerOf[receiver] = giver;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const givers = shuffle(Array.from({ length: n }, (_, i) => i), rng);
+  for (const giver of givers) {
+    tryAssign(giver, new Array<boolean>(n).fill(false));
+  }
+
+  const receiverOf = new Array<number>(n).fill(-1);
+  ownerOf.forEach((giver, receiver) => {
+    if (giver !== -1) receiverOf[giver] = receiver;
+  });
+  return receiverOf;
+}
+
+/**
+ * Finds a perfect matching on the eligibility graph
+ *
+ * Unlike shuffle-and-retry, the search is exhaustive: if any perfect
+ * matching exists, one is returned.
+ *
+ * @returns The receiver index for every giver, or null if none exists
+ */
+export function findPerfectMatching(
+  eligible: boolean[][],
+  rng: RandomSource = cryptoRandom
+): number[] | null {
+  const receiverOf = findMaximumMatching(eligible, rng);
+  return receiverOf.includes(-1) ? null : receiverOf;
+}
+
+/**
+ * Finds a k-regular assignment: every giver gets k different receivers and
+ * every receiver is chosen by k different givers
+ *
+ * Generalizes Kuhn's algorithm to capacities: a giver may take a full
+ * receiver if one of that receiver's givers can move to another receiver.
+ * Like the perfect matching search it is exhaustive, so a result is found
+ * whenever one exists.
+ *
+ * @param eligible - Which pairs are allowed at all
+ * @param k - Receivers per giver (and givers per receiver)
+ * @param cost - Optional pair costs; cheaper pairs are tried first
+ * @returns The receiver indices of every giver, or null if none exists
+ */
+export function findRegularAssignment(
+  eligible: boolean[][],
+  k: number,
+  cost?: number[][],
+  rng: RandomSource = cryptoRandom
+): number[][] | null {
+  const n = eligible.length;
+  const adjacency = eligible.map((row, giver) =>
+    shuffle(row.flatMap((allowed, receiver) => (allowed ? [receiver] : [])), rng)
+      .sort((a, b) => (cost ? cost[giver][a] - cost[giver][b] : 0))
+  );
+  const uses = eligible.map(row => row.map(() => false));
+  const load = new Array<number>(n).fill(0);
+
+  const tryAssign = (giver: number, visited: boolean[]): boolean => {
+    for (const receiver of adjacency[giver]) {
+      if (uses[giver][receiver] || visited[receiver]) continue;
+      visited[receiver] = true;
+
+      if (load[receiver] < k) {
+        uses[giver][receiver] = true;
+        load[receiver]++;
+        return true;
+      }
+
+      // Receiver is full: ask one of its givers to pick someone else
+      for (let other = 0; other < n; other++) {
+        if (uses[other][receiver] && tryAssign(other, visited)) {
+          uses[other][receiver] = false;
+          uses[giver][receiver] = true;
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const givers = shuffle(Array.from({ length: n }, (_, i) => i), rng);
+  for (let round = 0; round < k; round++) {
+    for (const giver of givers) {
+      if (!tryAssign(giver, new Array<boolean>(n).fill(false))) {
+        return null;
+      }
+    }
+  }
+
+  return uses.map(row => row.flatMap((used, receiver) => (used ? [receiver] : [])));
+}
+
+/**
+ * Finds a perfect matching with the lowest total cost (Hungarian algorithm)
+ *
+ * Used for soft constraints: allowed-but-undesirable pairs get a higher cost
+ * and are only chosen when nothing better exists. A random tie-breaker below
+ * one unit in total is added, so equally good matchings are picked at random
+ * without ever trading away a whole unit of cost.
+ *
+ * @param eligible - Which pairs are allowed at all
+ * @param cost - Whole-number cost of each allowed pair
+ * @returns The receiver index for every giver, or null if none exists
+ */
+export function findMinCostPerfectMatching(
+  eligible: boolean[][],
+  cost: number[][],
+  rng: RandomSource = cryptoRandom
+): number[] | null {
+  const n = eligible.length;
+  // Forbidden pairs cost more than any combination of allowed ones
+  const forbidden = n * (Math.max(0, ...cost.flat()) + 1) + 1;
+  const weight = eligible.map((row, g) =>
+    row.map((allowed, r) =>
+      allowed ? cost[g][r] + rng.next() / (n + 1) : forbidden
+    )
+  );
+
+  // Classic O(n³) formulation with row/column potentials, 1-indexed
+  const rowPotential = new Array<number>(n + 1).fill(0);
+  const colPotential = new Array<number>(n + 1).fill(0);
+  const rowOfCol = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    rowOfCol[0] = row;
+    let col0 = 0;
+    const minSlack = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[col0] = true;
+      const row0 = rowOfCol[col0];
+      let delta = Infinity;
+      let col1 = 0;
+
+      for (let col = 1; col <= n; col++) {
+        if (used[col]) continue;
+        const slack = weight[row0 - 1][col - 1] - rowPotential[row0] - colPotential[col];
+        if (slack < minSlack[col]) {
+          minSlack[col] = slack;
+          way[col] = col0;
+        }
+        if (minSlack[col] < delta) {
+          delta = minSlack[col];
+          col1 = col;
+        }
+      }
+
+      for (let col = 0; col <= n; col++) {
+        if (used[col]) {
+          rowPotential[rowOfCol[col]] += delta;
+          colPotential[col] -= delta;
+        } else {
+          minSlack[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (rowOfCol[col0] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const col1 = way[col0];
+      rowOfCol[col0] = rowOfCol[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const receiverOf = new Array<number>(n);
+  for (let col = 1; col <= n; col++) {
+    receiverOf[rowOfCol[col] - 1] = col - 1;
+  }
+
+  // Only forbidden pairs were left: there is no valid matching
+  return receiverOf.every((r, g) => eligible[g][r]) ? receiverOf : null;
+}
+
+/**
+ * Finds a group of givers that together can reach fewer receivers than
+ * there are givers in the group (a Hall's theorem violation)
+ *
+ * Such a group exists exactly when there is no perfect matching. Starting
+ * from each giver the maximum matching leaves out, we follow alternating
+ * paths; the givers reached form a violating group. The smallest group
+ * found is returned because it points most directly at the bottleneck.
+ *
+ * @returns Giver indices in ascending order, or null if a perfect matching exists
+ */
+export function findDeficientGroup(eligible: boolean[][]): number[] | null {
+  const n = eligible.length;
+  const receiverOf = findMaximumMatching(eligible);
+  const ownerOf = new Array<number>(n).fill(-1);
+  receiverOf.forEach((receiver, giver) => {
+    if (receiver !== -1) ownerOf[receiver] = giver;
+  });
+
+  let smallest: number[] | null = null;
+
+  receiverOf.forEach((receiver, start) => {
+    if (receiver !== -1) return;
+
+    const group = new Set<number>([start]);
+    const seenReceivers = new Set<number>();
+    const queue = [start];
+
+    while (queue.length > 0) {
+      const giver = queue.shift()!;
+      for (let r = 0; r < n; r++) {
+        if (!eligible[giver][r] || seenReceivers.has(r)) continue;
+        seenReceivers.add(r);
+        // In a maximum matching every receiver reachable this way is taken
+        const owner = ownerOf[r];
+        if (owner !== -1 && !group.has(owner)) {
+          group.add(owner);
+          queue.push(owner);
+        }
+      }
+    }
+
+    if (!smallest || group.size < smallest.length) {
+      smallest = [...group].sort((a, b) => a - b);
+    }
+  });
+
+  return smallest;
+}
+
+// Upper bound on search steps for the single-cycle search; it runs on the
+// main thread, several times per draw, so a search that finds nothing must
+// give up within a fraction of a second
+const MAX_CYCLE_SEARCH_STEPS = 20_000;
+
+/**
+ * Whether every vertex can reach every other one along allowed edges
+ */
+function isStronglyConnected(eligible: boolean[][]): boolean {
+  const n = eligible.length;
+  const reachesAll = (hasEdge: (from: number, to: number) => boolean) => {
+    const seen = new Array<boolean>(n).fill(false);
+    seen[0] = true;
+    const queue = [0];
+    let count = 1;
+    while (queue.length > 0) {
+      const vertex = queue.pop()!;
+      for (let next = 0; next < n; next++) {
+        if (!seen[next] && hasEdge(vertex, next)) {
+          seen[next] = true;
+          count++;
+          queue.push(next);
+        }
+      }
+    }
+    return count === n;
+  };
+  return reachesAll((from, to) => eligible[from][to]) &&
+    reachesAll((from, to) => eligible[to][from]);
+}
+
+/**
+ * Whether removing some single vertex splits the graph, ignoring edge
+ * directions. A cycle through everyone still connects the rest once any
+ * one of them is gone, so such a graph has none.
+ */
+function hasCutVertex(eligible: boolean[][]): boolean {
+  const n = eligible.length;
+  for (let removed = 0; removed < n; removed++) {
+    const first = removed === 0 ? 1 : 0;
+    const seen = new Array<boolean>(n).fill(false);
+    seen[removed] = true;
+    seen[first] = true;
+    const queue = [first];
+    let count = 1;
+    while (queue.length > 0) {
+      const vertex = queue.pop()!;
+      for (let next = 0; next < n; next++) {
+        if (!seen[next] && (eligible[vertex][next] || eligible[next][vertex])) {
+          seen[next] = true;
+          count++;
+          queue.push(next);
+        }
+      }
+    }
+    if (count < n - 1) return true;
+  }
+  return false;
+}
+
+/**
+ * Finds a single cycle through every vertex (a Hamiltonian cycle)
+ *
+ * Depth-first search with random tie-breaking that always extends the path
+ * towards the vertex with the fewest remaining options (Warnsdorff's rule),
+ * and abandons a branch as soon as some unvisited vertex can no longer be
+ * entered or left. The problem is NP-hard in general, so the search is
+ * capped; for party-sized groups it finishes almost instantly.
+ *
+ * A cycle is also a perfect matching of a strongly connected graph without
+ * a cut vertex, so graphs failing any of these cheap checks are rejected
+ * before searching; those are the setups where the search would otherwise
+ * use up its cap.
+ *
+ * @param eligible - Which edges may be used
+ * @param cost - Optional edge costs; cheaper edges are tried first
+ * @param rng - Source for random tie-breaking
+ * @returns The successor index for every vertex, or null if no cycle was found
+ */
+export function findHamiltonianCycle(
+  eligible: boolean[][],
+  cost?: number[][],
+  rng: RandomSource = cryptoRandom
+): number[] | null {
+  const n = eligible.length;
+  if (n < 2) return null;
+  // The matching check uses its own randomness, not rng; a seeded draw
+  // depends only on the search itself
+  if (!isStronglyConnected(eligible) || hasCutVertex(eligible) ||
+      !findPerfectMatching(eligible)) {
+    return null;
+  }
+
+  const start = 0;
+  const path = [start];
+  const visited = new Array<boolean>(n).fill(false);
+  visited[start] = true;
+  let steps = 0;
+
+  const remainingOptions = (vertex: number) =>
+    eligible[vertex].filter((allowed, next) => allowed && !visited[next]).length;
+
+  // Every unvisited vertex must still be reachable from the path's open
+  // end or another unvisited vertex, and must still lead to one (or home)
+  const isStillFeasible = (tail: number) => {
+    for (let v = 0; v < n; v++) {
+      if (visited[v]) continue;
+      let canEnter = eligible[tail][v];
+      let canLeave = eligible[v][start];
+      for (let u = 0; u < n && !(canEnter && canLeave); u++) {
+        if (visited[u] || u === v) continue;
+        canEnter ||= eligible[u][v];
+        canLeave ||= eligible[v][u];
+      }
+      if (!canEnter || !canLeave) return false;
+    }
+    return true;
+  };
+
+  const extend = (tail: number): boolean => {
+    if (++steps > MAX_CYCLE_SEARCH_STEPS) return false;
+    if (path.length === n) return eligible[tail][start];
+    if (!isStillFeasible(tail)) return false;
+
+    const candidates = shuffle(
+      eligible[tail].flatMap((allowed, next) =>
+        allowed && !visited[next] ? [next] : []
+      ),
+      rng
+    ).sort((a, b) =>
+      (cost ? cost[tail][a] - cost[tail][b] : 0) ||
+      remainingOptions(a) - remainingOptions(b)
+    );
+
+    for (const next of candidates) {
+      visited[next] = true;
+      path.push(next);
+      if (extend(next)) return true;
+      path.pop();
+      visited[next] = false;
+    }
+    return false;
+  };
+
+  if (!extend(start)) return null;
+
+  const successorOf = new Array<number>(n);
+  path.forEach((vertex, index) => {
+    successorOf[vertex] = path[(index + 1) % n];
+  });
+  return successorOf;
+}
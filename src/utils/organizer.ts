@@ -0,0 +1,39 @@
+/**
+ * Organizer password utilities
+ *
+ * The setup screen can reset the event, edit participants and hand out
+ * links holding every pairing, so it sits behind a password chosen when
+ * the event is created. Only a salted PBKDF2 hash is stored; the unlocked
+ * state lives in memory and locks again after a period of inactivity.
+ */
+
+import type { OrganizerLock } from '../types';
+import { createSecretHash, isValidSecretHash, verifySecretHash } from './secretHash';
+
+export const MIN_ORGANIZER_PASSWORD_LENGTH = 6;
+
+// Organizer mode locks itself after this long without input
+export const ORGANIZER_IDLE_TIMEOUT_MS = 5 * 60_000;
+
+const PASSWORD_HASH_ITERATIONS = 200_000;
+
+/**
+ * Hashes a new organizer password with a fresh salt
+ */
+export function createOrganizerLock(password: string): Promise<OrganizerLock> {
+  return createSecretHash(password, PASSWORD_HASH_ITERATIONS);
+}
+
+/**
+ * Checks a password against the stored organizer lock
+ */
+export function verifyOrganizerPassword(password: string, lock: OrganizerLock): Promise<boolean> {
+  return verifySecretHash(password, lock, PASSWORD_HASH_ITERATIONS);
+}
+
+/**
+ * Runtime shape check for an organizer lock coming from storage
+ */
+export function isValidOrganizerLock(value: unknown): value is OrganizerLock {
+  return isValidSecretHash(value);
+}
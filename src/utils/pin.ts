@@ -0,0 +1,112 @@
+/**
+ * Participant PIN utilities
+ *
+ * On a shared laptop anyone could click someone else's name, so each
+ * participant guards their spin with a short PIN. PINs are stored only as
+ * salted PBKDF2 hashes, and repeated wrong guesses lock the participant
+ * out for a while (longer after each lockout).
+ *
+ * A 4-8 digit PIN can't stop someone who copies the hash out of
+ * localStorage and brute-forces it offline; it keeps honest people from
+ * peeking and makes guessing at the keyboard impractical.
+ */
+
+import type { ParticipantPin, PinAttempts } from '../types';
+import { createSecretHash, isValidSecretHash, verifySecretHash } from './secretHash';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+// Wrong guesses allowed before each lockout
+export const MAX_PIN_ATTEMPTS = 5;
+
+// First lockout; each further lockout doubles it, up to the maximum
+const BASE_LOCKOUT_MS = 60_000;
+const MAX_LOCKOUT_MS = 60 * 60_000;
+
+const PIN_HASH_ITERATIONS = 100_000;
+
+/**
+ * Whether a PIN has the right shape (digits only)
+ */
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+}
+
+/**
+ * Hashes a new PIN with a fresh salt
+ */
+export function hashPin(pin: string): Promise<ParticipantPin> {
+  return createSecretHash(pin, PIN_HASH_ITERATIONS);
+}
+
+/**
+ * Checks a PIN against its stored hash
+ */
+export function verifyPin(pin: string, stored: ParticipantPin): Promise<boolean> {
+  return verifySecretHash(pin, stored, PIN_HASH_ITERATIONS);
+}
+
+/**
+ * Creates a random PIN for the organizer to hand out. Random bytes of 250
+ * and up are skipped, so every digit is equally likely.
+ */
+export function generatePin(length = MIN_PIN_LENGTH): string {
+  let pin = '';
+  while (pin.length < length) {
+    for (const value of crypto.getRandomValues(new Uint8Array(length))) {
+      if (value < 250 && pin.length < length) {
+        pin += String(value % 10);
+      }
+    }
+  }
+  return pin;
+}
+
+/**
+ * Records a wrong guess, locking the participant after every
+ * MAX_PIN_ATTEMPTS failures
+ */
+export function recordFailedAttempt(attempts: PinAttempts | undefined, now: number): PinAttempts {
+  const failures = (attempts?.failures ?? 0) + 1;
+  if (failures % MAX_PIN_ATTEMPTS !== 0) {
+    return { failures, lockedUntil: attempts?.lockedUntil ?? 0 };
+  }
+
+  const lockouts = failures / MAX_PIN_ATTEMPTS;
+  const duration = Math.min(BASE_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_LOCKOUT_MS);
+  return { failures, lockedUntil: now + duration };
+}
+
+/**
+ * Guesses left before the next lockout
+ */
+export function getAttemptsLeft(attempts: PinAttempts | undefined): number {
+  return MAX_PIN_ATTEMPTS - ((attempts?.failures ?? 0) % MAX_PIN_ATTEMPTS);
+}
+
+/**
+ * Runtime shape check for PINs coming from storage
+ */
+export function isValidPinRecord(value: unknown): value is Record<string, ParticipantPin> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  return Object.values(value).every(isValidSecretHash);
+}
+
+/**
+ * Runtime shape check for lockout counters coming from storage
+ */
+export function isValidAttemptsRecord(value: unknown): value is Record<string, PinAttempts> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  return Object.values(value).every(attempts =>
+    attempts !== null && typeof attempts === 'object' &&
+    Number.isInteger(attempts.failures) &&
+    typeof attempts.lockedUntil === 'number'
+  );
+}
@@ -0,0 +1,473 @@
+/**
+ * QR code encoder
+ *
+ * A small, dependency-free QR code generator (ISO/IEC 18004, byte mode,
+ * versions 1-40) so share links can be scanned off the organizer's screen
+ * without sending them to any online service.
+ *
+ * Encrypted links run to a couple of kilobytes, so the smallest version
+ * that fits is used at the requested error correction level, falling back
+ * to lower levels only when the link would not fit otherwise. When the
+ * chosen version has room to spare, the level is raised for free.
+ */
+
+// Error correction levels, lowest first; roughly 7/15/25/30% recoverable
+export type QrErrorLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number;
+  errorLevel: QrErrorLevel;
+  // Modules per side (without the quiet zone)
+  size: number;
+  // modules[y][x] is true for dark modules
+  modules: boolean[][];
+}
+
+const ERROR_LEVELS: QrErrorLevel[] = ['L', 'M', 'Q', 'H'];
+
+// Value of each level in the format information
+const FORMAT_BITS: Record<QrErrorLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, by level and version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Error correction blocks, by level and version (index 0 unused)
+const ECC_BLOCKS: Record<QrErrorLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Penalty weights used to pick the mask
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER_LIKE = 40;
+const PENALTY_BALANCE = 10;
+
+/**
+ * Modules left for data and error correction once the function patterns
+ * are placed
+ */
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+/**
+ * Data codewords a version holds at a level
+ */
+function getDataCodewords(version: number, level: QrErrorLevel): number {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version];
+}
+
+/**
+ * Bits needed for byte-mode data of the given length
+ */
+function getDataBits(version: number, byteCount: number): number {
+  // Mode indicator, character count, data
+  return 4 + (version <= 9 ? 8 : 16) + byteCount * 8;
+}
+
+/**
+ * Centers of the alignment patterns along each axis
+ */
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = version * 4 + 10; result.length < count; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+/**
+ * Multiplies in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+ */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+/**
+ * Reed-Solomon generator polynomial of the given degree
+ */
+function getReedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Reed-Solomon error correction codewords for one block
+ */
+function getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Splits data into blocks, adds error correction to each and interleaves them
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorLevel): number[] {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getReedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = getReedSolomonRemainder(block, divisor);
+    // Pad short blocks so every block has the same shape while interleaving
+    if (i < shortBlockCount) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+/**
+ * Builds the data codewords: header, bytes, terminator and padding
+ */
+function buildDataCodewords(bytes: Uint8Array, version: number, level: QrErrorLevel): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4);
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  const capacityBits = getDataCodewords(version, level) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+/**
+ * Whether module (x, y) is inverted by the mask pattern
+ */
+function isMasked(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+}
+
+/**
+ * Module grid under construction, with the function pattern areas marked
+ */
+interface QrGrid {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+function setFunctionModule(grid: QrGrid, x: number, y: number, dark: boolean): void {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+}
+
+/**
+ * Draws the format information (level and mask) in both copies
+ */
+function drawFormatBits(grid: QrGrid, level: QrErrorLevel, mask: number): void {
+  const data = (FORMAT_BITS[level] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size } = grid;
+
+  for (let i = 0; i <= 5; i++) setFunctionModule(grid, 8, i, bit(i));
+  setFunctionModule(grid, 8, 7, bit(6));
+  setFunctionModule(grid, 8, 8, bit(7));
+  setFunctionModule(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunctionModule(grid, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunctionModule(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunctionModule(grid, 8, size - 15 + i, bit(i));
+  // The dark module, always set
+  setFunctionModule(grid, 8, size - 8, true);
+}
+
+/**
+ * Draws the version information (versions 7 and up)
+ */
+function drawVersionBits(grid: QrGrid, version: number): void {
+  if (version < 7) return;
+
+  let remainder = version;
+  for (let i = 0; i < 12; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  }
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, dark);
+    setFunctionModule(grid, b, a, dark);
+  }
+}
+
+/**
+ * Draws finders, timing and alignment patterns and reserves the format areas
+ */
+function drawFunctionPatterns(grid: QrGrid, version: number, level: QrErrorLevel): void {
+  const { size } = grid;
+
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(grid, 6, i, i % 2 === 0);
+    setFunctionModule(grid, i, 6, i % 2 === 0);
+  }
+
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= size || y < 0 || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunctionModule(grid, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // These three overlap the finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Placeholder; redrawn once the mask is chosen
+  drawFormatBits(grid, level, 0);
+  drawVersionBits(grid, version);
+}
+
+/**
+ * Places the codewords in the zigzag order, skipping function patterns
+ */
+function drawCodewords(grid: QrGrid, codewords: number[]): void {
+  const { size } = grid;
+  let bitIndex = 0;
+
+  for (let right = size - 1; right >= 1; right -= 2) {
+    // The vertical timing pattern column is skipped
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (grid.isFunction[y][x] || bitIndex >= codewords.length * 8) continue;
+        grid.modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex++;
+      }
+    }
+  }
+}
+
+/**
+ * Inverts the data modules selected by the mask (applying it twice undoes it)
+ */
+function applyMask(grid: QrGrid, mask: number): void {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && isMasked(mask, x, y)) {
+        grid.modules[y][x] = !grid.modules[y][x];
+      }
+    }
+  }
+}
+
+/**
+ * Penalty for one row or column: long runs and finder-like patterns
+ */
+function getLinePenalty(line: boolean[]): number {
+  let penalty = 0;
+
+  let runLength = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      runLength++;
+      continue;
+    }
+    if (runLength >= 5) penalty += PENALTY_RUN + runLength - 5;
+    runLength = 1;
+  }
+
+  // 1:1:3:1:1 dark/light pattern with four light modules on one side
+  const pattern = [true, false, true, true, true, false, true];
+  for (let i = 0; i + pattern.length <= line.length; i++) {
+    if (!pattern.every((dark, k) => line[i + k] === dark)) continue;
+    const lightBefore = line.slice(Math.max(i - 4, 0), i).every(dark => !dark);
+    const lightAfter = line.slice(i + 7, i + 11).every(dark => !dark);
+    if (lightBefore || lightAfter) penalty += PENALTY_FINDER_LIKE;
+  }
+  return penalty;
+}
+
+/**
+ * How hard the symbol is to scan; the mask with the lowest penalty wins
+ */
+function getPenalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+  let darkCount = 0;
+
+  for (let y = 0; y < size; y++) {
+    penalty += getLinePenalty(modules[y]);
+    penalty += getLinePenalty(modules.map(row => row[y]));
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dark = modules[y][x];
+      if (dark) darkCount++;
+      if (x + 1 < size && y + 1 < size &&
+          dark === modules[y][x + 1] &&
+          dark === modules[y + 1][x] &&
+          dark === modules[y + 1][x + 1]) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  // Every 5% away from half dark costs more
+  const total = size * size;
+  const deviation = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1;
+  return penalty + Math.max(deviation, 0) * PENALTY_BALANCE;
+}
+
+/**
+ * Encodes text (as UTF-8 bytes) into a QR code
+ *
+ * @param minLevel - Lowest error correction wanted; lowered only when the
+ *   text does not fit at this level even in version 40
+ * @returns null if the text is too long for any QR code
+ */
+export function encodeQrCode(text: string, minLevel: QrErrorLevel = 'M'): QrCode | null {
+  const bytes = new TextEncoder().encode(text);
+
+  let level: QrErrorLevel | null = null;
+  let version = MIN_VERSION;
+  for (let l = ERROR_LEVELS.indexOf(minLevel); l >= 0 && !level; l--) {
+    for (let v = MIN_VERSION; v <= MAX_VERSION; v++) {
+      if (getDataBits(v, bytes.length) <= getDataCodewords(v, ERROR_LEVELS[l]) * 8) {
+        level = ERROR_LEVELS[l];
+        version = v;
+        break;
+      }
+    }
+  }
+  if (!level) return null;
+
+  // Use any spare room in this version for stronger error correction
+  for (const higher of ERROR_LEVELS.slice(ERROR_LEVELS.indexOf(level) + 1)) {
+    if (getDataBits(version, bytes.length) <= getDataCodewords(version, higher) * 8) {
+      level = higher;
+    }
+  }
+
+  const size = version * 4 + 17;
+  const grid: QrGrid = {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+  drawFunctionPatterns(grid, version, level);
+  drawCodewords(grid, addErrorCorrection(buildDataCodewords(bytes, version, level), version, level));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, level, mask);
+    const penalty = getPenalty(grid.modules);
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, level, bestMask);
+
+  return { version, errorLevel: level, size, modules: grid.modules };
+}
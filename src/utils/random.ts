@@ -0,0 +1,89 @@
+/**
+ * Random number sources for the draw
+ *
+ * Everything random in the draw goes through a RandomSource, so the engine
+ * can use crypto.getRandomValues by default and a seeded deterministic
+ * generator when a draw must be reproducible (tests, dispute resolution).
+ */
+
+import { bytesToHex } from './encoding';
+
+export interface RandomSource {
+  // Uniform float in [0, 1)
+  next: () => number;
+}
+
+/**
+ * Cryptographically secure source backed by crypto.getRandomValues
+ * Builds 53-bit floats so every double in [0, 1) is reachable
+ */
+export const cryptoRandom: RandomSource = {
+  next: () => {
+    const [high, low] = crypto.getRandomValues(new Uint32Array(2));
+    return ((high >>> 5) * 67108864 + (low >>> 6)) / 9007199254740992;
+  },
+};
+
+/**
+ * Hashes a seed string into four 32-bit words (cyrb128)
+ */
+function hashSeed(seed: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * Deterministic source (sfc32) - the same seed always gives the same sequence
+ * Not meant to hide its output; use it only when reproducibility matters
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let [a, b, c, d] = hashSeed(seed);
+
+  const source: RandomSource = {
+    next: () => {
+      a >>>= 0;
+      b >>>= 0;
+      c >>>= 0;
+      d >>>= 0;
+      let t = (a + b) | 0;
+      a = b ^ (b >>> 9);
+      b = (c + (c << 3)) | 0;
+      c = (c << 21) | (c >>> 11);
+      d = (d + 1) | 0;
+      t = (t + d) | 0;
+      c = (c + t) | 0;
+      return (t >>> 0) / 4294967296;
+    },
+  };
+
+  // Mix the hashed seed in before handing out numbers
+  for (let i = 0; i < 15; i++) {
+    source.next();
+  }
+  return source;
+}
+
+/**
+ * Creates a fresh 128-bit seed as hex, using the secure source
+ */
+export function generateSeed(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+}
@@ -0,0 +1,247 @@
+/**
+ * Changes to a finished draw
+ *
+ * When someone drops out after the draw, people may already have bought
+ * gifts, so only the pairs that involved the leaver should change. The
+ * leaver's givers take over the leaver's receivers wherever the rules allow
+ * it (G → L → R becomes G → R, which also keeps a single chain intact).
+ * Only if that is impossible is everyone reassigned, keeping as many of the
+ * existing pairs as possible.
+ *
+ * A late joiner is spliced into existing pairs instead (A → B becomes
+ * A → New → B), so only A's assignment changes. Givers who haven't seen
+ * their match yet are picked first.
+ *
+ * Constraints and a required cross-group policy are honored. Repeat
+ * avoidance is not: keeping bought gifts matters more than last year's pairs.
+ */
+
+import type {
+  Participant,
+  Assignment,
+  DrawConstraints,
+  DrawSettings,
+} from '../types';
+import { isPairAllowed } from './constraints';
+import { isSameGroup } from './groups';
+import { cryptoRandom, type RandomSource } from './random';
+import {
+  shuffle,
+  findPerfectMatching,
+  findMinCostPerfectMatching,
+  findHamiltonianCycle,
+  findRegularAssignment,
+} from './matching';
+
+// Result of changing a finished draw
+export interface ReassignmentOutcome {
+  participants: Participant[];
+  assignments: Assignment[];
+  // Givers (other than the leaver or joiner) whose receivers changed
+  affectedGiverIds: string[];
+}
+
+/**
+ * Key for a giver -> receiver pair
+ */
+function pairKey(giverId: string, receiverId: string): string {
+  return `${giverId}\u0000${receiverId}`;
+}
+
+/**
+ * Builds the pair check used by every change: constraints plus a required
+ * cross-group policy
+ */
+function createPairCheck(
+  constraints: DrawConstraints,
+  settings: DrawSettings
+): (giver: Participant, receiver: Participant) => boolean {
+  return (giver, receiver) =>
+    isPairAllowed(giver.id, receiver.id, constraints) &&
+    !(settings.groupPolicy === 'require' && isSameGroup(giver, receiver));
+}
+
+/**
+ * Lists givers whose set of receivers differs between two draws
+ */
+function findAffectedGivers(before: Assignment[], after: Assignment[]): string[] {
+  const previous = new Set(before.map(a => pairKey(a.giverId, a.receiverId)));
+  return [...new Set(
+    after
+      .filter(a => !previous.has(pairKey(a.giverId, a.receiverId)))
+      .map(a => a.giverId)
+  )];
+}
+
+/**
+ * Reassigns everyone, keeping as many existing pairs as possible
+ * Used when the leaver's pairs cannot simply be handed over
+ */
+function reassignAll(
+  participants: Participant[],
+  kept: Assignment[],
+  isAllowed: (giver: Participant, receiver: Participant) => boolean,
+  settings: DrawSettings,
+  rng: RandomSource
+): Assignment[] | null {
+  const existing = new Set(kept.map(a => pairKey(a.giverId, a.receiverId)));
+  const eligible = participants.map(giver =>
+    participants.map(receiver => isAllowed(giver, receiver))
+  );
+  // Every pair that differs from the current draw costs one change
+  const cost = participants.map(giver =>
+    participants.map(receiver => (existing.has(pairKey(giver.id, receiver.id)) ? 0 : 1))
+  );
+
+  const toPairs = (receiversOf: number[][]) =>
+    participants.flatMap((giver, g) =>
+      receiversOf[g].map(r => ({ giverId: giver.id, receiverId: participants[r].id }))
+    );
+
+  if (settings.giftsPerPerson > 1) {
+    const receiversOf = findRegularAssignment(eligible, settings.giftsPerPerson, cost, rng);
+    return receiversOf && toPairs(receiversOf);
+  }
+
+  const receiverOf = settings.mode === 'chain'
+    ? findHamiltonianCycle(eligible, cost, rng)
+    : findMinCostPerfectMatching(eligible, cost, rng);
+  return receiverOf && toPairs(receiverOf.map(r => [r]));
+}
+
+/**
+ * Removes a participant from a finished draw with as few changes as possible
+ *
+ * @param participants - Everyone in the draw, including the leaver
+ * @param assignments - The current draw
+ * @param leaverId - Participant who drops out
+ * @param rng - Random source (secure by default)
+ * @returns The changed draw, or null if too few people would remain or
+ *          the rules leave no valid draw
+ */
+export function withdrawFromDraw(
+  participants: Participant[],
+  assignments: Assignment[],
+  leaverId: string,
+  constraints: DrawConstraints,
+  settings: DrawSettings,
+  rng: RandomSource = cryptoRandom
+): ReassignmentOutcome | null {
+  const remaining = participants.filter(p => p.id !== leaverId);
+  if (remaining.length === participants.length ||
+      remaining.length < Math.max(2, settings.giftsPerPerson + 1)) {
+    return null;
+  }
+
+  const byId = new Map(participants.map(p => [p.id, p]));
+  const isAllowed = createPairCheck(constraints, settings);
+
+  const kept = assignments.filter(a => a.giverId !== leaverId && a.receiverId !== leaverId);
+  const existing = new Set(kept.map(a => pairKey(a.giverId, a.receiverId)));
+
+  // Each of the leaver's givers takes over one of the leaver's receivers
+  const orphanedGivers = assignments
+    .filter(a => a.receiverId === leaverId)
+    .map(a => byId.get(a.giverId)!);
+  const orphanedReceivers = assignments
+    .filter(a => a.giverId === leaverId)
+    .map(a => byId.get(a.receiverId)!);
+  const handover = findPerfectMatching(
+    orphanedGivers.map(giver =>
+      orphanedReceivers.map(receiver =>
+        !existing.has(pairKey(giver.id, receiver.id)) && isAllowed(giver, receiver)
+      )
+    ),
+    rng
+  );
+
+  const newAssignments = handover
+    ? [
+        ...kept,
+        ...handover.map((r, g) => ({
+          giverId: orphanedGivers[g].id,
+          receiverId: orphanedReceivers[r].id,
+        })),
+      ]
+    : reassignAll(remaining, kept, isAllowed, settings, rng);
+
+  if (!newAssignments) {
+    return null;
+  }
+
+  return {
+    participants: remaining,
+    assignments: newAssignments,
+    affectedGiverIds: findAffectedGivers(kept, newAssignments),
+  };
+}
+
+/**
+ * Adds a participant to a finished draw by splicing them into existing pairs
+ *
+ * With k gifts per person, k pairs with different givers and different
+ * receivers are split, so the newcomer gives and receives k gifts.
+ *
+ * @param participants - Everyone already in the draw
+ * @param assignments - The current draw
+ * @param newcomer - Participant joining late
+ * @param revealedIds - Givers who have already seen their match
+ * @param rng - Random source (secure by default)
+ * @returns The changed draw, or null if no pairs can be split under the rules
+ */
+export function joinDraw(
+  participants: Participant[],
+  assignments: Assignment[],
+  newcomer: Participant,
+  constraints: DrawConstraints,
+  settings: DrawSettings,
+  revealedIds: Set<string>,
+  rng: RandomSource = cryptoRandom
+): ReassignmentOutcome | null {
+  const byId = new Map(participants.map(p => [p.id, p]));
+  const isAllowed = createPairCheck(constraints, settings);
+
+  // Pairs that could take the newcomer in the middle, unrevealed givers first
+  const candidates = shuffle(
+    assignments.filter(a =>
+      isAllowed(byId.get(a.giverId)!, newcomer) &&
+      isAllowed(newcomer, byId.get(a.receiverId)!)
+    ),
+    rng
+  ).sort((a, b) => Number(revealedIds.has(a.giverId)) - Number(revealedIds.has(b.giverId)));
+
+  // Pick k pairs that share no giver and no receiver
+  const chosen: Assignment[] = [];
+  const pick = (from: number): boolean => {
+    if (chosen.length === settings.giftsPerPerson) return true;
+    for (let i = from; i < candidates.length; i++) {
+      const pair = candidates[i];
+      const clashes = chosen.some(c =>
+        c.giverId === pair.giverId || c.receiverId === pair.receiverId
+      );
+      if (clashes) continue;
+      chosen.push(pair);
+      if (pick(i + 1)) return true;
+      chosen.pop();
+    }
+    return false;
+  };
+
+  if (!pick(0)) {
+    return null;
+  }
+
+  const newAssignments = [
+    ...assignments.filter(a => !chosen.includes(a)),
+    ...chosen.flatMap(pair => [
+      { giverId: pair.giverId, receiverId: newcomer.id },
+      { giverId: newcomer.id, receiverId: pair.receiverId },
+    ]),
+  ];
+
+  return {
+    participants: [...participants, newcomer],
+    assignments: newAssignments,
+    affectedGiverIds: chosen.map(pair => pair.giverId),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Re-reveal audit log utilities
+ * Records every "show my match again" so the organizer can see who looked
+ * again and when (never what they saw)
+ */
+
+import type { Participant, ReRevealMethod, RevealAuditEntry } from '../types';
+
+// Oldest entries are dropped past this, so storage stays small
+export const MAX_AUDIT_ENTRIES = 200;
+
+/**
+ * Appends a re-reveal to the log, keeping only the most recent entries
+ */
+export function appendRevealAudit(
+  log: RevealAuditEntry[],
+  participant: Participant,
+  method: ReRevealMethod,
+  now: number
+): RevealAuditEntry[] {
+  const entry: RevealAuditEntry = {
+    participantId: participant.id,
+    participantName: participant.name,
+    at: now,
+    method,
+  };
+  return [...log, entry].slice(-MAX_AUDIT_ENTRIES);
+}
+
+/**
+ * Runtime shape check for an audit log coming from storage
+ */
+export function isValidRevealAudit(value: unknown): value is RevealAuditEntry[] {
+  return Array.isArray(value) && value.every(entry =>
+    entry !== null && typeof entry === 'object' &&
+    typeof entry.participantId === 'string' &&
+    typeof entry.participantName === 'string' &&
+    typeof entry.at === 'number' &&
+    (entry.method === 'pin' || entry.method === 'link')
+  );
+}
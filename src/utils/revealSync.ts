@@ -0,0 +1,138 @@
+/**
+ * Reveal sync adapters
+ *
+ * Devices that opened links of the same draw share which participants
+ * have seen their match, so "3 / 10 görüntülendi" is the same everywhere.
+ * Only names go over the wire, never pairings.
+ *
+ * With VITE_SYNC_URL set, the bundled sync server (server/sync-server.js)
+ * relays reveals over HTTP and Server-Sent Events. Without it an in-memory
+ * adapter keeps the app working on its own, without sharing anything.
+ */
+
+import type { Participant, DrawCommitment } from '../types';
+import { bytesToHex } from './encoding';
+
+export interface RevealSyncAdapter {
+  // Listens to a room; onChange gets every name revealed there so far.
+  // Returns a function that stops listening.
+  subscribe: (room: string, onChange: (names: string[]) => void) => () => void;
+  publish: (room: string, name: string) => Promise<void>;
+}
+
+/**
+ * Sync room of a draw. Every link of a draw carries its commitment; links
+ * from before commitments fall back to the participants' names.
+ */
+export async function getRevealRoom(
+  participants: Participant[],
+  commitment: DrawCommitment | null
+): Promise<string> {
+  if (commitment) {
+    return commitment.root;
+  }
+
+  const names = participants.map(p => p.name.toLowerCase()).sort();
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(JSON.stringify(names))
+  );
+  return bytesToHex(new Uint8Array(digest));
+}
+
+/**
+ * Runtime shape check for a room's state coming from the server
+ */
+function isRevealedList(value: unknown): value is { revealed: string[] } {
+  return value !== null && typeof value === 'object' &&
+    'revealed' in value && Array.isArray(value.revealed) &&
+    value.revealed.every(name => typeof name === 'string');
+}
+
+/**
+ * Keeps rooms in this page only; the fallback when there is no server
+ */
+export function createMemorySyncAdapter(): RevealSyncAdapter {
+  const rooms = new Map<string, { names: Set<string>; listeners: Set<(names: string[]) => void> }>();
+
+  const getRoom = (room: string) => {
+    let entry = rooms.get(room);
+    if (!entry) {
+      entry = { names: new Set(), listeners: new Set() };
+      rooms.set(room, entry);
+    }
+    return entry;
+  };
+
+  return {
+    subscribe: (room, onChange) => {
+      const entry = getRoom(room);
+      entry.listeners.add(onChange);
+      queueMicrotask(() => onChange([...entry.names]));
+      return () => {
+        entry.listeners.delete(onChange);
+      };
+    },
+    publish: async (room, name) => {
+      const entry = getRoom(room);
+      if (entry.names.has(name)) return;
+      entry.names.add(name);
+      entry.listeners.forEach(listener => listener([...entry.names]));
+    },
+  };
+}
+
+/**
+ * Talks to the bundled sync server
+ *
+ * @param baseUrl - Server address, e.g. "http://localhost:8787"
+ */
+export function createHttpSyncAdapter(baseUrl: string): RevealSyncAdapter {
+  const roomUrl = (room: string) =>
+    `${baseUrl.replace(/\/+$/, '')}/rooms/${encodeURIComponent(room)}`;
+
+  return {
+    subscribe: (room, onChange) => {
+      // EventSource reconnects by itself; the server resends the full list
+      const source = new EventSource(`${roomUrl(room)}/events`);
+      source.onmessage = (event: MessageEvent<string>) => {
+        try {
+          const data: unknown = JSON.parse(event.data);
+          if (isRevealedList(data)) {
+            onChange(data.revealed);
+          }
+        } catch (error) {
+          console.error('Invalid message from sync server:', error);
+        }
+      };
+      return () => source.close();
+    },
+    publish: async (room, name) => {
+      try {
+        const response = await fetch(`${roomUrl(room)}/revealed`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name }),
+        });
+        if (!response.ok) {
+          console.error('Sync server rejected a reveal:', response.status);
+        }
+      } catch (error) {
+        console.error('Failed to publish reveal:', error);
+      }
+    },
+  };
+}
+
+let adapter: RevealSyncAdapter | null = null;
+
+/**
+ * The app's sync adapter, picked once from the build configuration
+ */
+export function getRevealSyncAdapter(): RevealSyncAdapter {
+  if (!adapter) {
+    const syncUrl: string | undefined = import.meta.env.VITE_SYNC_URL;
+    adapter = syncUrl ? createHttpSyncAdapter(syncUrl) : createMemorySyncAdapter();
+  }
+  return adapter;
+}
@@ -0,0 +1,81 @@
+/**
+ * Salted secret hashes
+ *
+ * The organizer password and participant PINs are both kept only as salted
+ * PBKDF2 hashes, checked with a constant-time compare. They differ in how
+ * much stretching they get, see organizer.ts and pin.ts.
+ */
+
+import { bytesToHex, hexToBytes } from './encoding';
+
+const SALT_BYTES = 16;
+
+export interface SecretHash {
+  salt: string; // hex
+  hash: string; // hex
+}
+
+/**
+ * PBKDF2 hash of a secret with the given salt, as hex
+ */
+async function deriveSecretHash(
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<string> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    256
+  );
+  return bytesToHex(new Uint8Array(bits));
+}
+
+/**
+ * Compares two strings in time that depends only on their length
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Hashes a new secret with a fresh salt
+ */
+export async function createSecretHash(secret: string, iterations: number): Promise<SecretHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { salt: bytesToHex(salt), hash: await deriveSecretHash(secret, salt, iterations) };
+}
+
+/**
+ * Checks a secret against its stored hash
+ */
+export async function verifySecretHash(
+  secret: string,
+  stored: SecretHash,
+  iterations: number
+): Promise<boolean> {
+  const hash = await deriveSecretHash(secret, hexToBytes(stored.salt), iterations);
+  return constantTimeEqual(hash, stored.hash);
+}
+
+/**
+ * Runtime shape check for a hash coming from storage. The salt must be
+ * whole bytes of the right size, or it couldn't be decoded to verify.
+ */
+export function isValidSecretHash(value: unknown): value is SecretHash {
+  return value !== null && typeof value === 'object' &&
+    'salt' in value && typeof value.salt === 'string' &&
+    new RegExp(`^[0-9a-f]{${SALT_BYTES * 2}}$`).test(value.salt) &&
+    'hash' in value && typeof value.hash === 'string' && /^[0-9a-f]{64}$/.test(value.hash);
+}
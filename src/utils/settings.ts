@@ -0,0 +1,62 @@
+/**
+ * Draw settings utilities
+ * Defaults and runtime validation for organizer draw options
+ */
+
+import type { DrawSettings } from '../types';
+
+// Rounds the organizer may ask to avoid repeats from
+export const MAX_AVOID_ROUNDS = 10;
+
+// Most gifts a person may be asked to buy
+export const MAX_GIFTS_PER_PERSON = 3;
+
+// Longest seed the organizer may type
+export const MAX_SEED_LENGTH = 64;
+
+export const DEFAULT_DRAW_SETTINGS: DrawSettings = {
+  mode: 'standard',
+  avoidRecentRounds: 1,
+  historyPolicy: 'soft',
+  seed: '',
+  giftsPerPerson: 1,
+  groupPolicy: 'off',
+};
+
+/**
+ * Fills in defaults for settings saved by older versions
+ * Returns defaults if the value is not a settings object
+ */
+export function normalizeDrawSettings(value: unknown): DrawSettings {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_DRAW_SETTINGS;
+  }
+
+  const {
+    mode,
+    avoidRecentRounds,
+    historyPolicy,
+    seed,
+    giftsPerPerson,
+    groupPolicy,
+  } = value as Partial<DrawSettings>;
+  const gifts = Number.isInteger(giftsPerPerson)
+    ? Math.min(Math.max(giftsPerPerson!, 1), MAX_GIFTS_PER_PERSON)
+    : DEFAULT_DRAW_SETTINGS.giftsPerPerson;
+
+  return {
+    // A single chain only makes sense with one gift per person
+    mode: mode === 'chain' && gifts === 1 ? 'chain' : DEFAULT_DRAW_SETTINGS.mode,
+    avoidRecentRounds: Number.isInteger(avoidRecentRounds)
+      ? Math.min(Math.max(avoidRecentRounds!, 0), MAX_AVOID_ROUNDS)
+      : DEFAULT_DRAW_SETTINGS.avoidRecentRounds,
+    historyPolicy: historyPolicy === 'hard' ? 'hard' : DEFAULT_DRAW_SETTINGS.historyPolicy,
+    seed: typeof seed === 'string'
+      ? seed.trim().slice(0, MAX_SEED_LENGTH)
+      : DEFAULT_DRAW_SETTINGS.seed,
+    giftsPerPerson: gifts,
+    groupPolicy: groupPolicy === 'prefer' || groupPolicy === 'require'
+      ? groupPolicy
+      : DEFAULT_DRAW_SETTINGS.groupPolicy,
+  };
+}
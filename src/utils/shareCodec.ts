@@ -0,0 +1,494 @@
+/**
+ * Share link codec
+ *
+ * Share links used to carry base64 of URI-encoded JSON, which grows past
+ * what chat apps accept once an event has 30+ people. Payloads are now a
+ * compact binary layout, deflated and written as base64url:
+ *
+ *   [version byte] deflate-raw([kind byte] body)
+ *
+ * The body refers to people by their index in the participant list instead
+ * of their long generated ids, and writes numbers as varints. Ids are
+ * rebuilt on the receiving device (commitments hash names, not ids, so they
+ * still verify there).
+ *
+ * Legacy payloads (base64 JSON, always starting with "JT") still decode.
+ */
+
+import type {
+  Participant,
+  Assignment,
+  DrawConstraints,
+  DrawSettings,
+  DrawCommitment,
+  DrawMode,
+  HistoryPolicy,
+  GroupPolicy,
+  ShareData,
+  PersonalShareData,
+} from '../types';
+import {
+  base64UrlToBytes,
+  bytesToBase64Url,
+  bytesToHex,
+  hexToBytes,
+} from './encoding';
+
+// Bump when the binary layout changes; older versions must keep decoding
+export const SHARE_CODEC_VERSION = 1;
+
+// Largest decompressed body we accept, against deflate bombs
+const MAX_BODY_BYTES = 1 << 20;
+
+const KIND_FULL = 0;
+const KIND_PERSONAL = 1;
+
+// Enum values are written as their index in these lists
+const DRAW_MODES: DrawMode[] = ['standard', 'chain'];
+const HISTORY_POLICIES: HistoryPolicy[] = ['soft', 'hard'];
+const GROUP_POLICIES: GroupPolicy[] = ['off', 'prefer', 'require'];
+
+// A decoded link payload
+export type DecodedShare =
+  | { kind: 'full'; data: ShareData }
+  | { kind: 'personal'; data: PersonalShareData };
+
+interface ByteReader {
+  bytes: Uint8Array;
+  offset: number;
+}
+
+/**
+ * Runs bytes through a CompressionStream or DecompressionStream
+ */
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = new Blob([bytes]).stream().pipeThrough(stream).getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_BODY_BYTES) {
+      await reader.cancel();
+      throw new Error('Share payload too large');
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Writes a non-negative integer, 7 bits per byte
+ */
+function writeVarint(out: number[], value: number): void {
+  let rest = value;
+  while (rest >= 0x80) {
+    out.push((rest & 0x7f) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  out.push(rest);
+}
+
+/**
+ * Writes length-prefixed bytes
+ */
+function writeBytes(out: number[], bytes: Uint8Array): void {
+  writeVarint(out, bytes.length);
+  out.push(...bytes);
+}
+
+/**
+ * Writes a length-prefixed UTF-8 string
+ */
+function writeString(out: number[], text: string): void {
+  writeBytes(out, new TextEncoder().encode(text));
+}
+
+/**
+ * Writes an enum value as its index in the option list
+ */
+function writeEnum<T>(out: number[], options: T[], value: T): void {
+  writeVarint(out, Math.max(options.indexOf(value), 0));
+}
+
+/**
+ * Writes names, groups and wishlists; everything else refers to people by
+ * index
+ */
+function writeParticipants(out: number[], participants: Participant[]): void {
+  writeVarint(out, participants.length);
+  for (const participant of participants) {
+    writeString(out, participant.name);
+    writeString(out, participant.group ?? '');
+    writeString(out, participant.wishlist ?? '');
+  }
+}
+
+/**
+ * Writes a commitment with its hex hashes as raw bytes
+ */
+function writeCommitment(out: number[], commitment: DrawCommitment): void {
+  writeVarint(out, commitment.version);
+  writeBytes(out, hexToBytes(commitment.root));
+  writeVarint(out, commitment.leaves.length);
+  for (const leaf of commitment.leaves) {
+    writeBytes(out, hexToBytes(leaf));
+  }
+}
+
+/**
+ * Reads a varint; this and every read below throw on truncated data
+ */
+function readVarint(reader: ByteReader): number {
+  let value = 0;
+  let scale = 1;
+  for (;;) {
+    if (reader.offset >= reader.bytes.length || scale > 2 ** 49) {
+      throw new Error('Truncated share payload');
+    }
+    const byte = reader.bytes[reader.offset++];
+    value += (byte & 0x7f) * scale;
+    if (byte < 0x80) return value;
+    scale *= 128;
+  }
+}
+
+/**
+ * Reads length-prefixed bytes
+ */
+function readBytes(reader: ByteReader): Uint8Array {
+  const length = readVarint(reader);
+  if (reader.offset + length > reader.bytes.length) {
+    throw new Error('Truncated share payload');
+  }
+  const bytes = reader.bytes.slice(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+/**
+ * Reads a length-prefixed UTF-8 string
+ */
+function readString(reader: ByteReader): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(readBytes(reader));
+}
+
+/**
+ * Reads an enum value written by writeEnum
+ */
+function readEnum<T>(reader: ByteReader, options: T[]): T {
+  const value = options[readVarint(reader)];
+  if (value === undefined) {
+    throw new Error('Unknown value in share payload');
+  }
+  return value;
+}
+
+/**
+ * Reads a participant index, checked against the list
+ */
+function readIndex(reader: ByteReader, count: number): number {
+  const index = readVarint(reader);
+  if (index >= count) {
+    throw new Error('Participant index out of range');
+  }
+  return index;
+}
+
+/**
+ * Reads a count, bounded by the bytes left so garbage can't allocate much
+ */
+function readCount(reader: ByteReader): number {
+  const count = readVarint(reader);
+  if (count > reader.bytes.length - reader.offset) {
+    throw new Error('Truncated share payload');
+  }
+  return count;
+}
+
+/**
+ * Reads the participant list, giving everyone an id from their index
+ */
+function readParticipants(reader: ByteReader): Participant[] {
+  const count = readCount(reader);
+  return Array.from({ length: count }, (_, index) => {
+    const name = readString(reader);
+    const group = readString(reader);
+    const wishlist = readString(reader);
+    return {
+      id: `p${index}`,
+      name,
+      ...(group ? { group } : {}),
+      ...(wishlist ? { wishlist } : {}),
+    };
+  });
+}
+
+/**
+ * Reads a commitment written by writeCommitment
+ */
+function readCommitment(reader: ByteReader): DrawCommitment {
+  const version = readVarint(reader);
+  const root = bytesToHex(readBytes(reader));
+  const leafCount = readCount(reader);
+  const leaves = Array.from({ length: leafCount }, () => bytesToHex(readBytes(reader)));
+  return { version, root, leaves };
+}
+
+/**
+ * Writes a link with every pairing, constraints and settings
+ */
+function writeFullBody(out: number[], data: ShareData): void {
+  const { participants } = data;
+  const indexOf = new Map(participants.map((p, index) => [p.id, index]));
+  const idx = (id: string) => indexOf.get(id) ?? 0;
+  const constraints = data.constraints ?? { exclusions: [], households: [] };
+
+  writeParticipants(out, participants);
+
+  writeVarint(out, data.assignments.length);
+  for (const a of data.assignments) {
+    writeVarint(out, idx(a.giverId));
+    writeVarint(out, idx(a.receiverId));
+  }
+
+  writeVarint(out, constraints.exclusions.length);
+  for (const rule of constraints.exclusions) {
+    writeVarint(out, idx(rule.giverId));
+    writeVarint(out, idx(rule.receiverId));
+    writeVarint(out, rule.mutual ? 1 : 0);
+  }
+  writeVarint(out, constraints.households.length);
+  for (const household of constraints.households) {
+    writeString(out, household.name);
+    const memberIds = household.memberIds.filter(id => indexOf.has(id));
+    writeVarint(out, memberIds.length);
+    memberIds.forEach(id => writeVarint(out, idx(id)));
+  }
+
+  writeVarint(out, data.settings ? 1 : 0);
+  if (data.settings) {
+    const { settings } = data;
+    writeEnum(out, DRAW_MODES, settings.mode);
+    writeVarint(out, settings.avoidRecentRounds);
+    writeEnum(out, HISTORY_POLICIES, settings.historyPolicy);
+    writeString(out, settings.seed);
+    writeVarint(out, settings.giftsPerPerson);
+    writeEnum(out, GROUP_POLICIES, settings.groupPolicy);
+  }
+
+  writeVarint(out, data.commitment ? 1 : 0);
+  if (data.commitment) {
+    writeCommitment(out, data.commitment);
+    // One salt slot per participant, empty for those without one
+    for (const participant of participants) {
+      const salt = data.commitmentSalts?.[participant.id];
+      writeBytes(out, salt ? hexToBytes(salt) : new Uint8Array(0));
+    }
+  }
+}
+
+/**
+ * Reads a body written by writeFullBody
+ */
+function readFullBody(reader: ByteReader): ShareData {
+  const participants = readParticipants(reader);
+  const count = participants.length;
+  const id = (index: number) => participants[index].id;
+
+  const assignments: Assignment[] = Array.from({ length: readCount(reader) }, () => ({
+    giverId: id(readIndex(reader, count)),
+    receiverId: id(readIndex(reader, count)),
+  }));
+
+  const constraints: DrawConstraints = {
+    exclusions: Array.from({ length: readCount(reader) }, (_, index) => ({
+      id: `x${index}`,
+      giverId: id(readIndex(reader, count)),
+      receiverId: id(readIndex(reader, count)),
+      mutual: readVarint(reader) === 1,
+    })),
+    households: [],
+  };
+  const householdCount = readCount(reader);
+  for (let index = 0; index < householdCount; index++) {
+    const name = readString(reader);
+    const memberIds = Array.from({ length: readCount(reader) }, () =>
+      id(readIndex(reader, count))
+    );
+    constraints.households.push({ id: `h${index}`, name, memberIds });
+  }
+
+  let settings: DrawSettings | undefined;
+  if (readVarint(reader) === 1) {
+    settings = {
+      mode: readEnum(reader, DRAW_MODES),
+      avoidRecentRounds: readVarint(reader),
+      historyPolicy: readEnum(reader, HISTORY_POLICIES),
+      seed: readString(reader),
+      giftsPerPerson: readVarint(reader),
+      groupPolicy: readEnum(reader, GROUP_POLICIES),
+    };
+  }
+
+  if (readVarint(reader) !== 1) {
+    return { participants, assignments, constraints, ...(settings ? { settings } : {}) };
+  }
+
+  const commitment = readCommitment(reader);
+  const commitmentSalts: Record<string, string> = {};
+  for (const participant of participants) {
+    const salt = readBytes(reader);
+    if (salt.length > 0) {
+      commitmentSalts[participant.id] = bytesToHex(salt);
+    }
+  }
+  return {
+    participants,
+    assignments,
+    constraints,
+    ...(settings ? { settings } : {}),
+    commitment,
+    commitmentSalts,
+  };
+}
+
+/**
+ * Writes one giver's receivers and their own commitment salt
+ */
+function writePersonalBody(out: number[], data: PersonalShareData): void {
+  const indexOf = new Map(data.participants.map((p, index) => [p.id, index]));
+  const idx = (id: string) => indexOf.get(id) ?? 0;
+
+  writeParticipants(out, data.participants);
+  writeVarint(out, idx(data.giverId));
+  writeVarint(out, data.receiverIds.length);
+  data.receiverIds.forEach(id => writeVarint(out, idx(id)));
+
+  const hasCommitment = data.commitment && data.commitmentSalt;
+  writeVarint(out, hasCommitment ? 1 : 0);
+  if (hasCommitment) {
+    writeCommitment(out, data.commitment!);
+    writeBytes(out, hexToBytes(data.commitmentSalt!));
+  }
+}
+
+/**
+ * Reads a body written by writePersonalBody
+ */
+function readPersonalBody(reader: ByteReader): PersonalShareData {
+  const participants = readParticipants(reader);
+  const count = participants.length;
+  const giverId = participants[readIndex(reader, count)].id;
+  const receiverIds = Array.from({ length: readCount(reader) }, () =>
+    participants[readIndex(reader, count)].id
+  );
+
+  if (readVarint(reader) !== 1) {
+    return { participants, giverId, receiverIds };
+  }
+  return {
+    participants,
+    giverId,
+    receiverIds,
+    commitment: readCommitment(reader),
+    commitmentSalt: bytesToHex(readBytes(reader)),
+  };
+}
+
+/**
+ * Encodes a body of the given kind into a versioned, compressed payload
+ */
+async function encodeBody(kind: number, write: (out: number[]) => void): Promise<string> {
+  const body: number[] = [kind];
+  write(body);
+  const compressed = await pipeBytes(
+    Uint8Array.from(body),
+    new CompressionStream('deflate-raw')
+  );
+
+  const payload = new Uint8Array(compressed.length + 1);
+  payload[0] = SHARE_CODEC_VERSION;
+  payload.set(compressed, 1);
+  return bytesToBase64Url(payload);
+}
+
+/**
+ * Encodes a link with every pairing (?kura=)
+ */
+export function encodeShareData(data: ShareData): Promise<string> {
+  return encodeBody(KIND_FULL, out => writeFullBody(out, data));
+}
+
+/**
+ * Encodes one participant's private link (?kisi=)
+ */
+export function encodePersonalShareData(data: PersonalShareData): Promise<string> {
+  return encodeBody(KIND_PERSONAL, out => writePersonalBody(out, data));
+}
+
+/**
+ * Whether a payload is a legacy base64 JSON link (base64 of "%7B...")
+ */
+export function isLegacySharePayload(payload: string): boolean {
+  return payload.startsWith('JT');
+}
+
+/**
+ * Decodes a legacy base64 JSON payload
+ */
+function decodeLegacyPayload(payload: string): DecodedShare {
+  // Legacy links left '+' unescaped, which URLSearchParams reads as a space
+  const data = JSON.parse(decodeURIComponent(atob(payload.replace(/ /g, '+'))));
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid legacy share payload');
+  }
+  return 'giverId' in data
+    ? { kind: 'personal', data: data as PersonalShareData }
+    : { kind: 'full', data: data as ShareData };
+}
+
+/**
+ * Decodes any share payload, current or legacy
+ * The result still needs the store's semantic validation
+ *
+ * @throws If the payload is malformed or from an unknown codec version
+ */
+export async function decodeSharePayload(payload: string): Promise<DecodedShare> {
+  if (isLegacySharePayload(payload)) {
+    return decodeLegacyPayload(payload);
+  }
+
+  const bytes = base64UrlToBytes(payload);
+  if (bytes[0] !== SHARE_CODEC_VERSION) {
+    throw new Error(`Unsupported share codec version ${bytes[0]}`);
+  }
+
+  const body = await pipeBytes(bytes.slice(1), new DecompressionStream('deflate-raw'));
+  const reader: ByteReader = { bytes: body, offset: 1 };
+  let decoded: DecodedShare;
+  if (body[0] === KIND_FULL) {
+    decoded = { kind: 'full', data: readFullBody(reader) };
+  } else if (body[0] === KIND_PERSONAL) {
+    decoded = { kind: 'personal', data: readPersonalBody(reader) };
+  } else {
+    throw new Error('Unknown share payload kind');
+  }
+
+  if (reader.offset !== body.length) {
+    throw new Error('Trailing data in share payload');
+  }
+  return decoded;
+}
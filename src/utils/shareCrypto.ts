@@ -0,0 +1,234 @@
+/**
+ * Encrypted share links
+ *
+ * The payload of a share link (?kura= or ?kisi=) can be sealed with
+ * AES-GCM. The key comes either from a random secret kept in the URL
+ * fragment (#anahtar=...), which browsers never send to a server, or from
+ * a passphrase stretched with PBKDF2 that the organizer passes on in person.
+ *
+ * A short key check value travels with the ciphertext, so a wrong key can
+ * be told apart from data that was changed after it was sealed.
+ *
+ * Layouts (every part base64url, joined with dots):
+ *   k1.<check>.<iv>.<ciphertext>          key in the fragment
+ *   p1.<salt>.<check>.<iv>.<ciphertext>   key from a passphrase
+ */
+
+import { base64UrlToBytes, bytesToBase64Url } from './encoding';
+
+// Fragment param that holds the random key
+export const SHARE_KEY_PARAM = 'anahtar';
+
+const FRAGMENT_PREFIX = 'k1';
+const PASSPHRASE_PREFIX = 'p1';
+const PBKDF2_ITERATIONS = 200_000;
+const CHECK_BITS = 64;
+
+// A key ready to seal share payloads
+export interface ShareKey {
+  kind: 'fragment' | 'passphrase';
+  aesKey: CryptoKey;
+  // Key check value, base64url
+  check: string;
+  // PBKDF2 salt (passphrase keys), base64url
+  salt?: string;
+  // Secret for the URL fragment (fragment keys), base64url
+  fragmentSecret?: string;
+}
+
+// Why an encrypted payload could not be opened
+export type ShareDecryptError = 'wrong-key' | 'tampered' | 'malformed';
+
+export type ShareDecryptResult =
+  | { ok: true; payload: string }
+  | { ok: false; error: ShareDecryptError };
+
+/**
+ * Derives the AES key and the key check value from raw key material
+ */
+async function expandKeyMaterial(
+  material: Uint8Array<ArrayBuffer>
+): Promise<{ aesKey: CryptoKey; check: string }> {
+  const baseKey = await crypto.subtle.importKey('raw', material, 'HKDF', false, [
+    'deriveKey',
+    'deriveBits',
+  ]);
+  const hkdf = (info: string): HkdfParams => ({
+    name: 'HKDF',
+    hash: 'SHA-256',
+    salt: new Uint8Array(0),
+    info: new TextEncoder().encode(info),
+  });
+
+  const [aesKey, checkBits] = await Promise.all([
+    crypto.subtle.deriveKey(
+      hkdf('kura-share-key'),
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    ),
+    crypto.subtle.deriveBits(hkdf('kura-share-check'), baseKey, CHECK_BITS),
+  ]);
+  return { aesKey, check: bytesToBase64Url(new Uint8Array(checkBits)) };
+}
+
+/**
+ * Stretches a passphrase into 256 bits of key material
+ */
+async function stretchPassphrase(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<Uint8Array<ArrayBuffer>> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    baseKey,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Creates a random key that travels in the link's fragment
+ */
+export async function createFragmentShareKey(): Promise<ShareKey> {
+  const material = crypto.getRandomValues(new Uint8Array(32));
+  return {
+    kind: 'fragment',
+    ...(await expandKeyMaterial(material)),
+    fragmentSecret: bytesToBase64Url(material),
+  };
+}
+
+/**
+ * Creates a key from a passphrase; one key (and salt) serves a whole batch
+ * of links so the slow stretching runs only once
+ */
+export async function createPassphraseShareKey(passphrase: string): Promise<ShareKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    kind: 'passphrase',
+    ...(await expandKeyMaterial(await stretchPassphrase(passphrase, salt))),
+    salt: bytesToBase64Url(salt),
+  };
+}
+
+/**
+ * Seals a payload with the key
+ */
+export async function encryptSharePayload(payload: string, key: ShareKey): Promise<string> {
+  const header = key.kind === 'passphrase'
+    ? [PASSPHRASE_PREFIX, key.salt!, key.check]
+    : [FRAGMENT_PREFIX, key.check];
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    // The header is authenticated too, so swapping the salt counts as tampering
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(header.join('.')) },
+    key.aesKey,
+    new TextEncoder().encode(payload)
+  );
+  return [...header, bytesToBase64Url(iv), bytesToBase64Url(new Uint8Array(ciphertext))].join('.');
+}
+
+/**
+ * Rewrites a plain share link so its ?kura= / ?kisi= payload is sealed.
+ * Fragment keys are appended as #anahtar=...
+ */
+export async function encryptShareLink(link: string, key: ShareKey): Promise<string> {
+  const url = new URL(link);
+  for (const param of ['kura', 'kisi']) {
+    const payload = url.searchParams.get(param);
+    if (payload) {
+      url.searchParams.set(param, await encryptSharePayload(payload, key));
+    }
+  }
+  if (key.fragmentSecret) {
+    url.hash = `${SHARE_KEY_PARAM}=${key.fragmentSecret}`;
+  }
+  return url.toString();
+}
+
+/**
+ * Whether a link payload is sealed (as opposed to a plain legacy payload)
+ */
+export function isEncryptedSharePayload(payload: string): boolean {
+  return payload.startsWith(`${FRAGMENT_PREFIX}.`) ||
+    payload.startsWith(`${PASSPHRASE_PREFIX}.`);
+}
+
+/**
+ * Whether a sealed payload needs a passphrase rather than the fragment key
+ */
+export function needsSharePassphrase(payload: string): boolean {
+  return payload.startsWith(`${PASSPHRASE_PREFIX}.`);
+}
+
+/**
+ * Reads the fragment key from a location hash ('' if there is none)
+ */
+export function readShareKeyFromHash(hash: string): string {
+  return new URLSearchParams(hash.replace(/^#/, '')).get(SHARE_KEY_PARAM) ?? '';
+}
+
+/**
+ * Opens a sealed payload with the fragment secret or the passphrase
+ */
+export async function decryptSharePayload(
+  payload: string,
+  secret: string
+): Promise<ShareDecryptResult> {
+  const parts = payload.split('.');
+  const isPassphrase = parts[0] === PASSPHRASE_PREFIX;
+  const headerLength = isPassphrase ? 3 : 2;
+
+  if (parts.length !== headerLength + 2 || !isEncryptedSharePayload(payload)) {
+    return { ok: false, error: 'malformed' };
+  }
+
+  const header = parts.slice(0, headerLength);
+  const [iv, ciphertext] = parts.slice(headerLength);
+  const check = header[headerLength - 1];
+
+  let key: { aesKey: CryptoKey; check: string };
+  try {
+    const material = isPassphrase
+      ? await stretchPassphrase(secret, base64UrlToBytes(header[1]))
+      : base64UrlToBytes(secret);
+    if (material.length !== 32) {
+      return { ok: false, error: 'wrong-key' };
+    }
+    key = await expandKeyMaterial(material);
+  } catch {
+    // A secret that isn't even base64 can't be the right key
+    return isPassphrase
+      ? { ok: false, error: 'malformed' }
+      : { ok: false, error: 'wrong-key' };
+  }
+
+  if (key.check !== check) {
+    return { ok: false, error: 'wrong-key' };
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64UrlToBytes(iv),
+        additionalData: new TextEncoder().encode(header.join('.')),
+      },
+      key.aesKey,
+      base64UrlToBytes(ciphertext)
+    );
+    return { ok: true, payload: new TextDecoder().decode(plaintext) };
+  } catch {
+    // Right key, but the ciphertext or header was changed
+    return { ok: false, error: 'tampered' };
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Stored state schema
+ *
+ * Each event is saved as one versioned document:
+ *
+ *   { version, savedAt, state: { participants, assignments, ... } }
+ *
+ * It is written with a single setItem, so a failed save leaves the previous
+ * document whole instead of half the keys old and half new. Every field is
+ * checked on load: the core of the event (participants, the draw, the
+ * organizer lock) must be sound or the document is refused; anything else
+ * that is malformed falls back to its default on its own.
+ *
+ * Older documents are brought up to date one version at a time by
+ * MIGRATIONS. Version 0 is the layout from before documents, one key per
+ * field, as collected by storage.ts.
+ */
+
+import type {
+  Participant,
+  Assignment,
+  DrawConstraints,
+  DrawSettings,
+  DrawRound,
+  DrawCommitment,
+  ParticipantPin,
+  PinAttempts,
+  RevealAuditEntry,
+  OrganizerLock,
+} from '../types';
+import { EMPTY_CONSTRAINTS, isValidConstraints } from './constraints';
+import { normalizeDrawSettings } from './settings';
+import { isValidHistory } from './history';
+import { isValidCommitment } from './commitment';
+import { isValidAttemptsRecord, isValidPinRecord } from './pin';
+import { isValidRevealAudit } from './revealAudit';
+import { isValidOrganizerLock } from './organizer';
+import { isValidJoinCode } from './join';
+
+// Bump when the state document changes, and add a migration from the
+// previous version
+export const STATE_SCHEMA_VERSION = 1;
+
+// An event's stored data (the sound setting is the device's, stored apart)
+export interface StoredEventState {
+  participants: Participant[];
+  assignments: Assignment[];
+  constraints: DrawConstraints;
+  settings: DrawSettings;
+  history: DrawRound[];
+  commitment: DrawCommitment | null;
+  commitmentSalts: Record<string, string>;
+  pins: Record<string, ParticipantPin>;
+  pinAttempts: Record<string, PinAttempts>;
+  revealedParticipants: string[];
+  revealAudit: RevealAuditEntry[];
+  organizerLock: OrganizerLock | null;
+  joinCode: string | null;
+  handledJoinNames: string[];
+  isDrawComplete: boolean;
+}
+
+export interface StateDocument {
+  version: number;
+  savedAt: string; // ISO timestamp
+  state: StoredEventState;
+}
+
+// A document of any version, before migration and validation
+interface RawStateDocument {
+  version: number;
+  state: Record<string, unknown>;
+}
+
+/**
+ * Each migration turns a document's state of version n into version n + 1
+ */
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // One key per field; commitment and PINs were saved in pairs
+  0: legacy => {
+    const commitment = asRecord(legacy.commitment);
+    const pins = asRecord(legacy.pins);
+    return {
+      participants: legacy.participants,
+      assignments: legacy.assignments ?? [],
+      constraints: legacy.constraints,
+      settings: legacy.settings,
+      history: legacy.history,
+      commitment: commitment?.commitment ?? null,
+      commitmentSalts: commitment?.salts,
+      pins: pins?.pins,
+      pinAttempts: pins?.attempts,
+      revealedParticipants: legacy.revealed,
+      revealAudit: legacy.revealAudit,
+      organizerLock: legacy.organizer ?? null,
+      joinCode: legacy.joinCode ?? null,
+      handledJoinNames: legacy.handledJoinNames ?? [],
+      isDrawComplete: legacy.isDrawComplete ?? false,
+    };
+  },
+};
+
+/**
+ * The value as a plain object, or null
+ */
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+/**
+ * Wraps an event's state in a document of the current version
+ */
+export function createStateDocument(state: StoredEventState): StateDocument {
+  return {
+    version: STATE_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+  };
+}
+
+/**
+ * Runtime shape check for the participant list: ids unique, names set
+ */
+function isValidParticipantList(value: unknown): value is Participant[] {
+  if (!Array.isArray(value)) {
+    return false;
+  }
+  const ids = new Set<string>();
+  return value.every(participant => {
+    const valid = typeof participant?.id === 'string' && participant.id !== '' &&
+      !ids.has(participant.id) &&
+      typeof participant.name === 'string' && participant.name.trim() !== '' &&
+      (participant.group === undefined || typeof participant.group === 'string') &&
+      (participant.wishlist === undefined || typeof participant.wishlist === 'string');
+    if (valid) ids.add(participant.id);
+    return valid;
+  });
+}
+
+/**
+ * Runtime shape check for assignments between known participants
+ */
+function isValidAssignmentList(value: unknown, participantIds: Set<string>): value is Assignment[] {
+  return Array.isArray(value) && value.every(assignment =>
+    typeof assignment?.giverId === 'string' && participantIds.has(assignment.giverId) &&
+    typeof assignment.receiverId === 'string' && participantIds.has(assignment.receiverId)
+  );
+}
+
+/**
+ * Runtime shape check for commitment salts (hex, keyed by giver id)
+ */
+function isValidSaltRecord(value: unknown): value is Record<string, string> {
+  const record = asRecord(value);
+  return record !== null && Object.values(record).every(salt =>
+    typeof salt === 'string' && /^[0-9a-f]+$/.test(salt)
+  );
+}
+
+/**
+ * Brings a parsed document up to the current version
+ *
+ * @returns null when the value is not a document, or was written by a newer
+ * version of the app
+ */
+export function migrateStateDocument(value: unknown): RawStateDocument | null {
+  const document = asRecord(value);
+  const state = asRecord(document?.state);
+  if (!document || !state || typeof document.version !== 'number' ||
+      !Number.isInteger(document.version) || document.version < 0) {
+    return null;
+  }
+  if (document.version > STATE_SCHEMA_VERSION) {
+    console.error(`State document version ${document.version} is newer than this app`);
+    return null;
+  }
+
+  let migrated: RawStateDocument = { version: document.version, state };
+  while (migrated.version < STATE_SCHEMA_VERSION) {
+    migrated = {
+      version: migrated.version + 1,
+      state: MIGRATIONS[migrated.version](migrated.state),
+    };
+  }
+  return migrated;
+}
+
+/**
+ * Checks every field of a current-version state
+ *
+ * @returns null when the participants, the draw or the organizer lock are
+ * malformed; other malformed fields are replaced by their defaults
+ */
+export function validateStoredState(state: Record<string, unknown>): StoredEventState | null {
+  const { participants, assignments, isDrawComplete } = state;
+  if (!isValidParticipantList(participants)) {
+    console.error('Stored participants are malformed');
+    return null;
+  }
+  const participantIds = new Set(participants.map(p => p.id));
+  if (!isValidAssignmentList(assignments, participantIds) || typeof isDrawComplete !== 'boolean') {
+    console.error('Stored draw is malformed');
+    return null;
+  }
+  // A lock that can't be read is not the same as no lock, which would let
+  // anyone choose a new password
+  const { organizerLock } = state;
+  if (organizerLock !== undefined && organizerLock !== null && !isValidOrganizerLock(organizerLock)) {
+    console.error('Stored organizer lock is malformed');
+    return null;
+  }
+
+  // Optional fields: a malformed one is dropped, and reported
+  const dropped: string[] = [];
+  const pick = <T>(field: string, isValid: (value: unknown) => value is T, fallback: T): T => {
+    const value = state[field];
+    if (isValid(value)) return value;
+    if (value !== undefined && value !== null) dropped.push(field);
+    return fallback;
+  };
+
+  const commitment = pick('commitment', isValidCommitment, null);
+  const revealed = pick(
+    'revealedParticipants',
+    (value): value is string[] => Array.isArray(value) && value.every(id => typeof id === 'string'),
+    []
+  );
+  const joinCode = pick(
+    'joinCode',
+    (value): value is string => typeof value === 'string' && isValidJoinCode(value),
+    null
+  );
+
+  const validated: StoredEventState = {
+    participants,
+    assignments,
+    constraints: pick('constraints', isValidConstraints, EMPTY_CONSTRAINTS),
+    settings: normalizeDrawSettings(state.settings ?? null),
+    history: pick('history', isValidHistory, []),
+    commitment,
+    // Salts only mean something next to their commitment
+    commitmentSalts: commitment ? pick('commitmentSalts', isValidSaltRecord, {}) : {},
+    pins: pick('pins', isValidPinRecord, {}),
+    pinAttempts: pick('pinAttempts', isValidAttemptsRecord, {}),
+    revealedParticipants: revealed.filter(id => participantIds.has(id)),
+    revealAudit: pick('revealAudit', isValidRevealAudit, []),
+    organizerLock: organizerLock ?? null,
+    joinCode,
+    // Only kept while registration is open
+    handledJoinNames: joinCode ? pick(
+      'handledJoinNames',
+      (value): value is string[] => Array.isArray(value) && value.every(name => typeof name === 'string'),
+      []
+    ) : [],
+    isDrawComplete,
+  };
+
+  if (dropped.length > 0) {
+    console.warn(`Dropped malformed stored fields: ${dropped.join(', ')}`);
+  }
+  return validated;
+}
+
+/**
+ * Migrates and validates a stored document in one step
+ *
+ * @returns null when it can't be used
+ */
+export function readStateDocument(value: unknown): StoredEventState | null {
+  const migrated = migrateStateDocument(value);
+  return migrated ? validateStoredState(migrated.state) : null;
+}
@@ -0,0 +1,306 @@
+/**
+ * State storage adapters
+ *
+ * Where an event's state document (see stateSchema.ts) is kept. The
+ * browser's IndexedDB is used when there is one: it stores the document as
+ * is, without squeezing it into a string, and has room for much more than
+ * localStorage. localStorage is the fallback, and an in-memory adapter
+ * keeps tests away from both.
+ *
+ * Every adapter is asynchronous, so the store hydrates an event before
+ * showing it. Small device-wide data (the event list, signatures, shared
+ * sessions, the sound setting) stays in localStorage, see storage.ts.
+ */
+
+import { eventKey, parseJson } from './storage';
+import {
+  type StoredEventState,
+  createStateDocument,
+  readStateDocument,
+} from './stateSchema';
+
+export interface StorageAdapter {
+  // Resolves to false if nothing was written; the previous state is intact
+  saveState: (eventId: string, state: StoredEventState) => Promise<boolean>;
+  // Resolves to null for a fresh event, or one that can't be read
+  loadState: (eventId: string) => Promise<StoredEventState | null>;
+  clearState: (eventId: string) => Promise<void>;
+}
+
+// An event's state document in localStorage
+const STATE_KEY = 'secretsanta_state';
+// A document that could not be read is moved here before anything can
+// overwrite it, so it can still be recovered by hand
+const UNREADABLE_STATE_KEY = 'secretsanta_state_unreadable';
+
+// The layout before state documents (version 0): one key per field
+const LEGACY_KEYS = {
+  participants: 'secretsanta_participants',
+  assignments: 'secretsanta_assignments',
+  revealed: 'secretsanta_revealed',
+  isDrawComplete: 'secretsanta_draw_complete',
+  constraints: 'secretsanta_constraints',
+  settings: 'secretsanta_settings',
+  history: 'secretsanta_history',
+  commitment: 'secretsanta_commitment',
+  pins: 'secretsanta_pins',
+  revealAudit: 'secretsanta_reveal_audit',
+  organizer: 'secretsanta_organizer',
+  joinCode: 'secretsanta_join_code',
+  handledJoinNames: 'secretsanta_join_handled',
+} as const;
+
+// Event documents in IndexedDB, keyed by event id
+const STATE_DB_NAME = 'secretsanta_state';
+const STATE_STORE_NAME = 'events';
+const UNREADABLE_STORE_NAME = 'unreadable';
+
+/**
+ * Collects an event saved in the one-key-per-field layout as a version 0
+ * document; null when there is none
+ */
+function readLegacyDocument(eventId: string): { version: 0; state: Record<string, unknown> } | null {
+  if (localStorage.getItem(eventKey(eventId, LEGACY_KEYS.participants)) === null) {
+    return null;
+  }
+
+  // A malformed key is left out here and defaulted by validation
+  const state = Object.fromEntries(
+    Object.entries(LEGACY_KEYS).map(([field, key]) => [
+      field,
+      parseJson(localStorage.getItem(eventKey(eventId, key))),
+    ])
+  );
+  return { version: 0, state };
+}
+
+/**
+ * When a document was saved; '' for one that doesn't say, which sorts
+ * before any time
+ */
+function getSavedAt(document: unknown): string {
+  return document !== null && typeof document === 'object' && 'savedAt' in document &&
+    typeof document.savedAt === 'string' ? document.savedAt : '';
+}
+
+/**
+ * Removes an event's keys of the one-key-per-field layout
+ */
+function removeLegacyKeys(eventId: string): void {
+  Object.values(LEGACY_KEYS).forEach(key => {
+    localStorage.removeItem(eventKey(eventId, key));
+  });
+}
+
+/**
+ * Keeps each event as one JSON document in localStorage, migrating events
+ * saved in the one-key-per-field layout on first load
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  // Written with a single setItem, serialized before storage is touched
+  const writeDocument = (eventId: string, state: StoredEventState): boolean => {
+    try {
+      const json = JSON.stringify(createStateDocument(state));
+      localStorage.setItem(eventKey(eventId, STATE_KEY), json);
+      return true;
+    } catch (error) {
+      console.error('Failed to save state to localStorage:', error);
+      return false;
+    }
+  };
+
+  return {
+    saveState: async (eventId, state) => writeDocument(eventId, state),
+
+    loadState: async eventId => {
+      try {
+        const documentStr = localStorage.getItem(eventKey(eventId, STATE_KEY));
+        const legacy = documentStr === null ? readLegacyDocument(eventId) : null;
+        // If nothing is stored, return null (fresh start)
+        if (documentStr === null && !legacy) {
+          return null;
+        }
+
+        const state = readStateDocument(legacy ?? parseJson(documentStr));
+        if (!state) {
+          console.error('Stored state could not be read; starting fresh');
+          localStorage.setItem(
+            eventKey(eventId, UNREADABLE_STATE_KEY),
+            documentStr ?? JSON.stringify(legacy)
+          );
+          return null;
+        }
+
+        // The old keys go only once the document is safely written
+        if (legacy && writeDocument(eventId, state)) {
+          removeLegacyKeys(eventId);
+        }
+        return state;
+      } catch (error) {
+        console.error('Failed to load state from localStorage:', error);
+        return null;
+      }
+    },
+
+    clearState: async eventId => {
+      try {
+        localStorage.removeItem(eventKey(eventId, STATE_KEY));
+        removeLegacyKeys(eventId);
+      } catch (error) {
+        console.error('Failed to clear localStorage:', error);
+      }
+    },
+  };
+}
+
+/**
+ * Opens the IndexedDB database holding event documents
+ */
+function openStateDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(STATE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STATE_STORE_NAME);
+      request.result.createObjectStore(UNREADABLE_STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Keeps each event as one document in IndexedDB. An event still saved in
+ * localStorage moves over on first load, and localStorage stands in when
+ * IndexedDB fails; the next load then takes whichever copy is newer.
+ */
+export function createIndexedDbAdapter(): StorageAdapter {
+  // One connection, so writes reach the database in the order they are made
+  let database: Promise<IDBDatabase> | null = null;
+  const fromLocalStorage = createLocalStorageAdapter();
+
+  // Runs one request and resolves once its transaction is committed
+  const run = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    request: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database ??= openStateDatabase();
+    const db = await database.catch(error => {
+      database = null;
+      throw error;
+    });
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const pending = request(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(pending.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  const putDocument = (eventId: string, state: StoredEventState) =>
+    run(STATE_STORE_NAME, 'readwrite', store => store.put(createStateDocument(state), eventId));
+
+  return {
+    saveState: async (eventId, state) => {
+      try {
+        await putDocument(eventId, state);
+        return true;
+      } catch (error) {
+        // IndexedDB may be off altogether (some private modes)
+        console.error('Failed to save state to IndexedDB:', error);
+        return fromLocalStorage.saveState(eventId, state);
+      }
+    },
+
+    loadState: async eventId => {
+      try {
+        const document: unknown = await run(STATE_STORE_NAME, 'readonly', store => store.get(eventId));
+        // A localStorage copy is an event that never moved over, or a save
+        // IndexedDB refused after the document there was written
+        const localCopy = localStorage.getItem(eventKey(eventId, STATE_KEY));
+        const isLocalNewer = localCopy !== null &&
+          getSavedAt(parseJson(localCopy)) >= getSavedAt(document);
+        if (document === undefined || isLocalNewer) {
+          const imported = await fromLocalStorage.loadState(eventId);
+          // localStorage keeps it until IndexedDB has it
+          if (imported) {
+            await putDocument(eventId, imported);
+            await fromLocalStorage.clearState(eventId);
+            return imported;
+          }
+          if (document === undefined) {
+            return null;
+          }
+        } else if (localCopy !== null) {
+          // Outdated by a later save that did reach IndexedDB
+          await fromLocalStorage.clearState(eventId);
+        }
+
+        const state = readStateDocument(document);
+        if (!state) {
+          console.error('Stored state could not be read; starting fresh');
+          await run(UNREADABLE_STORE_NAME, 'readwrite', store => store.put(document, eventId));
+        }
+        return state;
+      } catch (error) {
+        console.error('Failed to load state from IndexedDB:', error);
+        return fromLocalStorage.loadState(eventId);
+      }
+    },
+
+    clearState: async eventId => {
+      try {
+        await run(STATE_STORE_NAME, 'readwrite', store => store.delete(eventId));
+      } catch (error) {
+        console.error('Failed to clear IndexedDB:', error);
+      }
+      // An event that never moved over is still in localStorage
+      await fromLocalStorage.clearState(eventId);
+    },
+  };
+}
+
+/**
+ * Keeps documents in memory only, for tests. Each is stored as JSON, so
+ * what comes back went through the same serialization and validation as
+ * with real storage.
+ */
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const documents = new Map<string, string>();
+
+  return {
+    saveState: async (eventId, state) => {
+      documents.set(eventId, JSON.stringify(createStateDocument(state)));
+      return true;
+    },
+    loadState: async eventId => {
+      const json = documents.get(eventId);
+      return json === undefined ? null : readStateDocument(parseJson(json));
+    },
+    clearState: async eventId => {
+      documents.delete(eventId);
+    },
+  };
+}
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * The app's storage adapter: IndexedDB where the browser has it
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    adapter = typeof indexedDB !== 'undefined'
+      ? createIndexedDbAdapter()
+      : createLocalStorageAdapter();
+  }
+  return adapter;
+}
+
+/**
+ * Replaces the storage adapter, e.g. with an in-memory one in tests
+ */
+export function setStorageAdapter(next: StorageAdapter): void {
+  adapter = next;
+}
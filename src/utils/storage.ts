@@ -1,115 +1,284 @@
 /**
  * LocalStorage persistence utilities
  * Handles safe serialization/deserialization with Set support
+ *
+ * A device can hold several events (family, office, friends). Each one
+ * keeps its own copy of the keys below, suffixed with its id; the first
+ * event keeps the plain keys, so data saved before events existed is simply
+ * the default event.
+ *
+ * An event's state itself goes through a storage adapter (see
+ * stateStorage.ts); what is left here is small and read synchronously.
  */
 
-import type { Participant, Assignment } from '../types';
+import type {
+  IntegrityRecord,
+  SharedSessionRecord,
+  EventSummary,
+} from '../types';
+import { isValidConstraints } from './constraints';
+import { isValidCommitment } from './commitment';
+import { isValidAttemptsRecord, isValidPinRecord } from './pin';
+import { isValidRevealAudit } from './revealAudit';
+import { isValidIntegrityRecord } from './integrity';
+import { normalizeDrawSettings } from './settings';
 
-const STORAGE_KEYS = {
-  PARTICIPANTS: 'secretsanta_participants',
-  ASSIGNMENTS: 'secretsanta_assignments',
-  REVEALED: 'secretsanta_revealed',
-  IS_DRAW_COMPLETE: 'secretsanta_draw_complete',
-  SOUND_ENABLED: 'secretsanta_sound',
-} as const;
+// The signature over an event's state, which itself is kept by the
+// storage adapter (see stateStorage.ts)
+const INTEGRITY_KEY = 'secretsanta_integrity';
 
-interface StoredState {
-  participants: Participant[];
-  assignments: Assignment[];
-  revealedParticipants: string[]; // Stored as array, converted to Set
-  isDrawComplete: boolean;
-  soundEnabled: boolean;
+// Device-wide, shared by every event
+const SOUND_ENABLED_KEY = 'secretsanta_sound';
+
+// The event list and the one that is open
+const EVENTS_KEY = 'secretsanta_events';
+const ACTIVE_EVENT_KEY = 'secretsanta_active_event';
+
+// Id of the event that keeps the unsuffixed keys
+export const DEFAULT_EVENT_ID = 'default';
+export const DEFAULT_EVENT_NAME = 'Çekilişim';
+export const MAX_EVENT_NAME_LENGTH = 40;
+
+/**
+ * An event's own copy of a storage key
+ */
+export function eventKey(eventId: string, key: string): string {
+  return eventId === DEFAULT_EVENT_ID ? key : `${key}__${eventId}`;
+}
+
+// Shared sessions live apart from the device's own event (and survive
+// clearState): one key per session plus a pointer to the open one
+const SHARED_SESSION_PREFIX = 'secretsanta_shared_';
+const ACTIVE_SHARED_SESSION_KEY = 'secretsanta_shared_active';
+
+/**
+ * Parses JSON; undefined when it isn't
+ */
+export function parseJson(text: string | null): unknown {
+  if (text === null) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Saves the device's sound setting
+ */
+export function saveSoundEnabled(soundEnabled: boolean): void {
+  try {
+    localStorage.setItem(SOUND_ENABLED_KEY, JSON.stringify(soundEnabled));
+  } catch (error) {
+    console.error('Failed to save sound setting:', error);
+  }
+}
+
+/**
+ * Saves the signature of the organizer-controlled state
+ * Written separately, after the state it signs
+ */
+export function saveIntegrityRecord(eventId: string, record: IntegrityRecord): void {
+  try {
+    localStorage.setItem(eventKey(eventId, INTEGRITY_KEY), JSON.stringify(record));
+  } catch (error) {
+    console.error('Failed to save state signature:', error);
+  }
+}
+
+/**
+ * Loads the stored signature; null when missing or malformed
+ */
+export function loadIntegrityRecord(eventId: string): IntegrityRecord | null {
+  try {
+    const record = parseJson(localStorage.getItem(eventKey(eventId, INTEGRITY_KEY)));
+    return isValidIntegrityRecord(record) ? record : null;
+  } catch (error) {
+    console.error('Failed to load state signature:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether an event has a signature at all, even one that can't be read
+ */
+export function hasIntegrityRecord(eventId: string): boolean {
+  try {
+    return localStorage.getItem(eventKey(eventId, INTEGRITY_KEY)) !== null;
+  } catch (error) {
+    console.error('Failed to load state signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Removes an event's signature, along with its state
+ */
+export function clearIntegrityRecord(eventId: string): void {
+  try {
+    localStorage.removeItem(eventKey(eventId, INTEGRITY_KEY));
+  } catch (error) {
+    console.error('Failed to clear state signature:', error);
+  }
+}
+
+/**
+ * Loads the device's sound setting (on unless turned off)
+ */
+export function loadSoundEnabled(): boolean {
+  try {
+    return localStorage.getItem(SOUND_ENABLED_KEY) !== 'false';
+  } catch (error) {
+    console.error('Failed to load sound setting:', error);
+    return true;
+  }
+}
+
+/**
+ * Runtime shape check for one entry of the event list
+ */
+function isValidEventSummary(value: unknown): value is EventSummary {
+  return value !== null && typeof value === 'object' &&
+    'id' in value && typeof value.id === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(value.id) &&
+    'name' in value && typeof value.name === 'string' &&
+    'createdAt' in value && typeof value.createdAt === 'string';
+}
+
+/**
+ * Saves the event list
+ */
+export function saveEventList(events: EventSummary[]): void {
+  try {
+    localStorage.setItem(EVENTS_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.error('Failed to save event list:', error);
+  }
 }
 
 /**
- * Saves the current state to localStorage
+ * Loads the event list; never empty. A device from before events has just
+ * the default event, holding whatever it had saved.
  */
-export function saveState(state: {
-  participants: Participant[];
-  assignments: Assignment[];
-  revealedParticipants: Set<string>;
-  isDrawComplete: boolean;
-  soundEnabled: boolean;
-}): void {
+export function loadEventList(): EventSummary[] {
   try {
-    localStorage.setItem(
-      STORAGE_KEYS.PARTICIPANTS,
-      JSON.stringify(state.participants)
-    );
-    localStorage.setItem(
-      STORAGE_KEYS.ASSIGNMENTS,
-      JSON.stringify(state.assignments)
-    );
-    // Convert Set to Array for storage
-    localStorage.setItem(
-      STORAGE_KEYS.REVEALED,
-      JSON.stringify([...state.revealedParticipants])
-    );
-    localStorage.setItem(
-      STORAGE_KEYS.IS_DRAW_COMPLETE,
-      JSON.stringify(state.isDrawComplete)
-    );
-    localStorage.setItem(
-      STORAGE_KEYS.SOUND_ENABLED,
-      JSON.stringify(state.soundEnabled)
-    );
+    const eventsStr = localStorage.getItem(EVENTS_KEY);
+    const parsed: unknown = eventsStr ? JSON.parse(eventsStr) : null;
+    if (Array.isArray(parsed)) {
+      const events = parsed.filter(isValidEventSummary);
+      if (events.length > 0) return events;
+    }
   } catch (error) {
-    console.error('Failed to save state to localStorage:', error);
+    console.error('Failed to load event list:', error);
   }
+  return [{ id: DEFAULT_EVENT_ID, name: DEFAULT_EVENT_NAME, createdAt: new Date().toISOString() }];
 }
 
 /**
- * Loads state from localStorage with safe hydration
+ * Remembers which event is open
  */
-export function loadState(): StoredState | null {
+export function saveActiveEventId(eventId: string): void {
   try {
-    const participantsStr = localStorage.getItem(STORAGE_KEYS.PARTICIPANTS);
-    const assignmentsStr = localStorage.getItem(STORAGE_KEYS.ASSIGNMENTS);
-    const revealedStr = localStorage.getItem(STORAGE_KEYS.REVEALED);
-    const isDrawCompleteStr = localStorage.getItem(STORAGE_KEYS.IS_DRAW_COMPLETE);
-    const soundEnabledStr = localStorage.getItem(STORAGE_KEYS.SOUND_ENABLED);
-
-    // If no participants stored, return null (fresh start)
-    if (!participantsStr) {
+    localStorage.setItem(ACTIVE_EVENT_KEY, eventId);
+  } catch (error) {
+    console.error('Failed to save active event:', error);
+  }
+}
+
+/**
+ * Loads the open event's id, if it is still in the list
+ */
+export function loadActiveEventId(events: EventSummary[]): string {
+  try {
+    const eventId = localStorage.getItem(ACTIVE_EVENT_KEY);
+    if (eventId && events.some(event => event.id === eventId)) {
+      return eventId;
+    }
+  } catch (error) {
+    console.error('Failed to load active event:', error);
+  }
+  return events[0].id;
+}
+
+/**
+ * Runtime shape check for a saved shared session
+ */
+function isValidSharedSession(value: unknown): value is SharedSessionRecord {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const record = value as Partial<SharedSessionRecord>;
+  return typeof record.id === 'string' &&
+    typeof record.room === 'string' &&
+    (record.personalParticipantId === null || typeof record.personalParticipantId === 'string') &&
+    Array.isArray(record.participants) &&
+    record.participants.every(p =>
+      p !== null && typeof p === 'object' && typeof p.id === 'string' && typeof p.name === 'string'
+    ) &&
+    Array.isArray(record.assignments) &&
+    record.assignments.every(a =>
+      a !== null && typeof a === 'object' &&
+      typeof a.giverId === 'string' && typeof a.receiverId === 'string'
+    ) &&
+    isValidConstraints(record.constraints) &&
+    (record.commitment === null || isValidCommitment(record.commitment)) &&
+    record.commitmentSalts !== null && typeof record.commitmentSalts === 'object' &&
+    isValidPinRecord(record.pins) &&
+    isValidAttemptsRecord(record.pinAttempts) &&
+    Array.isArray(record.revealedParticipants) &&
+    record.revealedParticipants.every(id => typeof id === 'string') &&
+    isValidRevealAudit(record.revealAudit);
+}
+
+/**
+ * Saves a shared session and makes it the one reopened on load
+ */
+export function saveSharedSession(record: SharedSessionRecord): void {
+  try {
+    localStorage.setItem(SHARED_SESSION_PREFIX + record.id, JSON.stringify(record));
+    localStorage.setItem(ACTIVE_SHARED_SESSION_KEY, record.id);
+  } catch (error) {
+    console.error('Failed to save shared session:', error);
+  }
+}
+
+/**
+ * Loads a saved shared session; null when missing or malformed
+ */
+export function loadSharedSession(id: string): SharedSessionRecord | null {
+  try {
+    const recordStr = localStorage.getItem(SHARED_SESSION_PREFIX + id);
+    const record: unknown = recordStr ? JSON.parse(recordStr) : null;
+    if (!isValidSharedSession(record) || record.id !== id) {
       return null;
     }
+    return { ...record, settings: normalizeDrawSettings(record.settings) };
+  } catch (error) {
+    console.error('Failed to load shared session:', error);
+    return null;
+  }
+}
 
-    const participants: Participant[] = JSON.parse(participantsStr);
-    const assignments: Assignment[] = assignmentsStr 
-      ? JSON.parse(assignmentsStr) 
-      : [];
-    const revealedParticipants: string[] = revealedStr 
-      ? JSON.parse(revealedStr) 
-      : [];
-    const isDrawComplete: boolean = isDrawCompleteStr 
-      ? JSON.parse(isDrawCompleteStr) 
-      : false;
-    const soundEnabled: boolean = soundEnabledStr !== null
-      ? JSON.parse(soundEnabledStr)
-      : true;
-
-    return {
-      participants,
-      assignments,
-      revealedParticipants,
-      isDrawComplete,
-      soundEnabled,
-    };
+/**
+ * The shared session that was open when the page was left, if any
+ */
+export function loadActiveSharedSession(): SharedSessionRecord | null {
+  try {
+    const id = localStorage.getItem(ACTIVE_SHARED_SESSION_KEY);
+    return id ? loadSharedSession(id) : null;
   } catch (error) {
-    console.error('Failed to load state from localStorage:', error);
+    console.error('Failed to load shared session:', error);
     return null;
   }
 }
 
 /**
- * Clears all stored state
+ * Stops reopening the shared session on load (its data stays saved)
  */
-export function clearState(): void {
+export function clearActiveSharedSession(): void {
   try {
-    Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key);
-    });
+    localStorage.removeItem(ACTIVE_SHARED_SESSION_KEY);
   } catch (error) {
-    console.error('Failed to clear localStorage:', error);
+    console.error('Failed to clear shared session:', error);
   }
 }
@@ -0,0 +1,208 @@
+/**
+ * Cross-tab sync
+ *
+ * With the app open in several tabs or windows each has its own store, and
+ * whichever saved last used to win. Now every tab tells the others what it
+ * saved, over a BroadcastChannel (or storage events where there is none):
+ *
+ * - reveals and the reveal audit only grow during a draw, so they are
+ *   merged as a set union;
+ * - everything else comes from the tab that changed it. When two tabs
+ *   changed it at once, the later change wins in both, and both report
+ *   the conflict.
+ *
+ * Each message carries a fingerprint of what the sender changed from, so a
+ * tab can tell a plain update from a change made on top of something else.
+ * Any script of the site can post on the channel, so the organizer's data
+ * comes signed with the event's key, the same way it is stored.
+ */
+
+import type { RevealAuditEntry } from '../types';
+import { type StoredEventState, validateStoredState } from './stateSchema';
+import { bytesToHex } from './encoding';
+import { canonicalJson } from './integrity';
+import { parseJson } from './storage';
+
+const CHANNEL_NAME = 'secretsanta_tabs';
+// Where BroadcastChannel is missing, a message is written here and removed
+// at once; other tabs see it as a storage event
+const STORAGE_MESSAGE_KEY = 'secretsanta_tab_message';
+
+// This tab, to ignore its own messages
+export const TAB_ID = bytesToHex(crypto.getRandomValues(new Uint8Array(8)));
+
+// Everything but the reveals
+type SyncField = Exclude<keyof StoredEventState, 'revealedParticipants' | 'revealAudit'>;
+
+// Fields that are not merged, with how a conflict over them is reported
+// (commitment salts go with the commitment)
+const SYNC_FIELD_LABELS: [SyncField, string][] = [
+  ['participants', 'katılımcılar'],
+  ['assignments', 'eşleşmeler'],
+  ['constraints', 'kurallar'],
+  ['settings', 'kura ayarları'],
+  ['history', 'geçmiş turlar'],
+  ['commitment', 'kura taahhüdü'],
+  ['pins', "PIN'ler"],
+  ['pinAttempts', 'PIN denemeleri'],
+  ['organizerLock', 'organizatör parolası'],
+  ['joinCode', 'katılım kodu'],
+  ['handledJoinNames', 'gelen kayıtlar'],
+  ['isDrawComplete', 'kura durumu'],
+];
+
+export interface TabSyncMessage {
+  tabId: string;
+  // What was saved: 'event:<id>' or 'shared:<id>'
+  scope: string;
+  sentAt: number; // epoch ms
+  // Fingerprint of the sender's state before the change
+  base: string;
+  state: StoredEventState;
+  // Signature of the state's organizer data, when the sender could sign it
+  signature: string | null;
+}
+
+export interface TabChannel {
+  post: (message: TabSyncMessage) => void;
+  close: () => void;
+}
+
+export interface TabMergeResult {
+  state: StoredEventState;
+  // Whether the other tab's version of the unmerged fields was taken
+  tookRemote: boolean;
+  // Labels of fields both tabs changed at once; empty without a conflict
+  conflicts: string[];
+}
+
+/**
+ * Fingerprint of everything but the reveals, which are merged instead
+ */
+export function getSyncFingerprint(state: Pick<StoredEventState, SyncField>): string {
+  return canonicalJson([
+    ...SYNC_FIELD_LABELS.map(([field]) => state[field]),
+    state.commitmentSalts,
+  ]);
+}
+
+/**
+ * Runtime shape check for a message from another tab
+ */
+function parseTabMessage(value: unknown): TabSyncMessage | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { tabId, scope, sentAt, base, state, signature } =
+    value as Partial<Record<keyof TabSyncMessage, unknown>>;
+  if (typeof tabId !== 'string' || typeof scope !== 'string' ||
+      typeof sentAt !== 'number' || typeof base !== 'string' ||
+      !state || typeof state !== 'object' ||
+      (signature !== null && typeof signature !== 'string')) {
+    return null;
+  }
+  const validated = validateStoredState(state as Record<string, unknown>);
+  return validated ? { tabId, scope, sentAt, base, state: validated, signature } : null;
+}
+
+/**
+ * Opens the channel to the app's other tabs; onMessage gets what they save
+ */
+export function createTabChannel(onMessage: (message: TabSyncMessage) => void): TabChannel {
+  const receive = (data: unknown) => {
+    const message = parseTabMessage(data);
+    if (message && message.tabId !== TAB_ID) {
+      onMessage(message);
+    }
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => receive(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_MESSAGE_KEY && event.newValue) {
+      receive(parseJson(event.newValue));
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify(message));
+        localStorage.removeItem(STORAGE_MESSAGE_KEY);
+      } catch (error) {
+        console.error('Failed to notify other tabs:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
+
+/**
+ * Audit entries of both lists, oldest first
+ */
+function mergeRevealAudit(a: RevealAuditEntry[], b: RevealAuditEntry[]): RevealAuditEntry[] {
+  const entries = new Map([...a, ...b].map(entry => [`${entry.participantId}|${entry.at}`, entry]));
+  return [...entries.values()].sort((x, y) => x.at - y.at);
+}
+
+/**
+ * Merges what another tab saved into this tab's state
+ *
+ * @param localChangedAt when this tab last changed the state itself, or
+ * null if it hasn't since it last took another tab's version
+ */
+export function mergeTabState(
+  local: StoredEventState,
+  message: TabSyncMessage,
+  localChangedAt: number | null
+): TabMergeResult {
+  const remote = message.state;
+  const localFingerprint = getSyncFingerprint(local);
+  const remoteFingerprint = getSyncFingerprint(remote);
+
+  let tookRemote: boolean;
+  let conflicts: string[] = [];
+  if (remoteFingerprint === localFingerprint || message.base === remoteFingerprint) {
+    // Same data, or the other tab only revealed something
+    tookRemote = false;
+  } else if (message.base === localFingerprint || localChangedAt === null) {
+    // A change made on top of what this tab has
+    tookRemote = true;
+  } else {
+    // Both tabs changed it; the later change wins, the same way in both
+    conflicts = SYNC_FIELD_LABELS
+      .filter(([field]) => canonicalJson(local[field]) !== canonicalJson(remote[field]))
+      .map(([, label]) => label);
+    tookRemote = message.sentAt > localChangedAt ||
+      (message.sentAt === localChangedAt && message.tabId > TAB_ID);
+  }
+
+  const kept = tookRemote ? remote : local;
+  const other = tookRemote ? local : remote;
+  // Reveals of another draw mean nothing for this one
+  const isSameDraw = kept.isDrawComplete === other.isDrawComplete &&
+    canonicalJson(kept.assignments) === canonicalJson(other.assignments);
+  const participantIds = new Set(kept.participants.map(p => p.id));
+
+  return {
+    state: {
+      ...kept,
+      revealedParticipants: isSameDraw
+        ? [...new Set([...kept.revealedParticipants, ...other.revealedParticipants])]
+            .filter(id => participantIds.has(id))
+        : kept.revealedParticipants,
+      revealAudit: isSameDraw
+        ? mergeRevealAudit(kept.revealAudit, other.revealAudit)
+        : kept.revealAudit,
+    },
+    tookRemote,
+    conflicts,
+  };
+}